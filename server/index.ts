@@ -0,0 +1,243 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http'
+import { createRateLimiter, RateLimiter } from './rateLimit'
+import { DEFAULT_LLM_MODEL, OPENAI_EMBEDDING_MODEL } from '../src/config/models'
+
+/**
+ * VoxTube API proxy. Holds the YouTube and OpenAI keys server-side so the
+ * browser bundle never contains them; the client uses it when
+ * VITE_API_PROXY_URL is set.
+ */
+
+const PORT = Number(process.env.PORT || 8787)
+const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY || ''
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || ''
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*'
+const TRUST_PROXY = process.env.TRUST_PROXY === '1'
+
+// Request-size caps
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 512 * 1024)
+const MAX_EMBED_INPUTS = 100
+const MAX_CHAT_MESSAGES = 10
+const MAX_RESULTS = 100
+
+// Models the proxy is willing to pay for. By default, the ones the app asks for
+// out of the box (VITE_LLM_MODEL too, when the client is built from the same env).
+const DEFAULT_ALLOWED_MODELS = [process.env.VITE_LLM_MODEL || DEFAULT_LLM_MODEL, OPENAI_EMBEDDING_MODEL]
+const ALLOWED_MODELS = new Set(
+  (process.env.ALLOWED_MODELS?.split(',') ?? DEFAULT_ALLOWED_MODELS).map(m => m.trim())
+)
+
+// YouTube calls are cheap quota; OpenAI calls cost money, so they get a tighter limit
+const youtubeLimiter = createRateLimiter(Number(process.env.YOUTUBE_RATE_LIMIT || 120))
+const openaiLimiter = createRateLimiter(Number(process.env.OPENAI_RATE_LIMIT || 30))
+
+const YOUTUBE_API = 'https://www.googleapis.com/youtube/v3'
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message)
+  }
+}
+
+function clientIp(req: IncomingMessage): string {
+  const forwarded = req.headers['x-forwarded-for']
+  if (TRUST_PROXY && typeof forwarded === 'string') {
+    return forwarded.split(',')[0].trim()
+  }
+  return req.socket.remoteAddress || 'unknown'
+}
+
+function limit(limiter: RateLimiter, req: IncomingMessage) {
+  const result = limiter.take(clientIp(req))
+  if (!result.allowed) {
+    throw new HttpError(429, 'Too many requests', { 'Retry-After': String(result.retryAfterSeconds) })
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Read a JSON body, rejecting anything over MAX_BODY_BYTES
+ */
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const declared = Number(req.headers['content-length'] || 0)
+  if (declared > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large')
+
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large')
+    chunks.push(chunk)
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+    if (!parsed || typeof parsed !== 'object') throw new Error()
+    return parsed
+  } catch {
+    throw new HttpError(400, 'Body must be a JSON object')
+  }
+}
+
+/**
+ * GET a YouTube Data API endpoint with the server's key; passes the JSON through
+ */
+async function youtube(path: string, params: Record<string, string | undefined>, signal: AbortSignal) {
+  if (!YOUTUBE_API_KEY) throw new HttpError(503, 'YouTube API key not configured')
+
+  const query = new URLSearchParams({ key: YOUTUBE_API_KEY })
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(name, value)
+  }
+
+  const response = await fetch(`${YOUTUBE_API}/${path}?${query}`, { signal })
+  return { status: response.status, body: await response.json() }
+}
+
+/**
+ * POST to an OpenAI endpoint with the server's key; passes the JSON through
+ */
+async function openai(path: string, body: unknown, signal: AbortSignal) {
+  if (!OPENAI_API_KEY) throw new HttpError(503, 'OpenAI API key not configured')
+
+  const response = await fetch(`${OPENAI_BASE_URL}/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${OPENAI_API_KEY}` },
+    body: JSON.stringify(body),
+    signal
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+function clampResults(value: string | null): string {
+  const n = Number(value || MAX_RESULTS)
+  return String(Math.max(1, Math.min(MAX_RESULTS, Number.isFinite(n) ? Math.floor(n) : MAX_RESULTS)))
+}
+
+/**
+ * Decode a path segment, rejecting malformed percent-encoding as a bad request
+ */
+function decodeSegment(segment: string | undefined): string {
+  try {
+    return decodeURIComponent(segment || '')
+  } catch {
+    throw new HttpError(400, 'Malformed path segment')
+  }
+}
+
+function checkModel(model: unknown): string {
+  if (typeof model !== 'string' || !ALLOWED_MODELS.has(model)) {
+    throw new HttpError(400, `Model not allowed: ${String(model)}`)
+  }
+  return model
+}
+
+async function route(req: IncomingMessage, signal: AbortSignal) {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const q = url.searchParams
+  const [, api, resource, id] = url.pathname.split('/')
+  if (api !== 'api') throw new HttpError(404, 'Not found')
+
+  if (req.method === 'GET') {
+    limit(youtubeLimiter, req)
+
+    switch (resource) {
+      case 'video':
+        // Comma-separated ids are allowed (search looks up details in one call)
+        return youtube('videos', { part: 'snippet,statistics', id: decodeSegment(id).split(',').slice(0, 50).join(',') }, signal)
+      case 'comments':
+        return youtube('commentThreads', {
+          part: q.get('part') === 'id' ? 'id' : q.get('part') === 'snippet' ? 'snippet' : 'snippet,replies',
+          videoId: decodeSegment(id),
+          maxResults: clampResults(q.get('maxResults')),
+          order: 'relevance',
+          textFormat: 'plainText',
+          pageToken: q.get('pageToken') || undefined
+        }, signal)
+      case 'replies':
+        return youtube('comments', {
+          part: 'snippet',
+          parentId: decodeSegment(id),
+          maxResults: clampResults(q.get('maxResults')),
+          textFormat: 'plainText',
+          pageToken: q.get('pageToken') || undefined
+        }, signal)
+      case 'search':
+        return youtube('search', {
+          part: 'snippet',
+          type: 'video',
+          maxResults: clampResults(q.get('maxResults')),
+          q: (q.get('q') || '').slice(0, 200)
+        }, signal)
+    }
+  }
+
+  if (req.method === 'POST') {
+    limit(openaiLimiter, req)
+    const body = await readJson(req)
+
+    switch (resource) {
+      case 'embed': {
+        const input = body.input
+        if (!Array.isArray(input) || input.length === 0 || input.length > MAX_EMBED_INPUTS || !input.every(t => typeof t === 'string')) {
+          throw new HttpError(400, `input must be 1-${MAX_EMBED_INPUTS} strings`)
+        }
+        return openai('embeddings', { model: checkModel(body.model), input }, signal)
+      }
+      case 'chat': {
+        const messages = body.messages
+        if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_CHAT_MESSAGES) {
+          throw new HttpError(400, `messages must have 1-${MAX_CHAT_MESSAGES} entries`)
+        }
+        return openai('chat/completions', {
+          model: checkModel(body.model),
+          messages,
+          response_format: body.response_format,
+          temperature: typeof body.temperature === 'number' ? body.temperature : undefined
+        }, signal)
+      }
+    }
+  }
+
+  throw new HttpError(404, 'Not found')
+}
+
+const server = createServer(async (req, res) => {
+  const cors = {
+    'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors)
+    res.end()
+    return
+  }
+
+  // Stop upstream work if the browser goes away
+  const controller = new AbortController()
+  res.on('close', () => controller.abort())
+
+  try {
+    const { status, body } = await route(req, controller.signal)
+    send(res, status, body, cors)
+  } catch (error) {
+    if (controller.signal.aborted) return
+    if (error instanceof HttpError) {
+      send(res, error.status, { error: { message: error.message } }, { ...cors, ...error.headers })
+    } else {
+      console.error('Proxy error:', error)
+      send(res, 502, { error: { message: 'Upstream request failed' } }, cors)
+    }
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`VoxTube proxy listening on http://localhost:${PORT}`)
+})
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createRateLimiter } from './rateLimit'
+
+let now = 0
+beforeEach(() => {
+  now = 1_000_000
+  mock.method(Date, 'now', () => now)
+})
+afterEach(() => mock.restoreAll())
+
+test('allows a burst, then refuses with the wait until the next token', () => {
+  const limiter = createRateLimiter(60, 3)
+
+  for (let i = 0; i < 3; i++) assert.deepEqual(limiter.take('a'), { allowed: true })
+  // One token a second
+  assert.deepEqual(limiter.take('a'), { allowed: false, retryAfterSeconds: 1 })
+
+  now += 1000
+  assert.deepEqual(limiter.take('a'), { allowed: true })
+  assert.equal(limiter.take('a').allowed, false)
+})
+
+test('refills at the average rate but never beyond the burst', () => {
+  const limiter = createRateLimiter(6, 2)
+  limiter.take('a')
+  limiter.take('a')
+  // Six a minute is one every ten seconds
+  assert.deepEqual(limiter.take('a'), { allowed: false, retryAfterSeconds: 10 })
+
+  now += 5000
+  assert.deepEqual(limiter.take('a'), { allowed: false, retryAfterSeconds: 5 })
+
+  // A long pause refills only up to the burst
+  now += 10 * 60_000
+  assert.equal(limiter.take('a').allowed, true)
+  assert.equal(limiter.take('a').allowed, true)
+  assert.equal(limiter.take('a').allowed, false)
+})
+
+test('keeps a bucket per client', () => {
+  const limiter = createRateLimiter(60, 1)
+
+  assert.equal(limiter.take('a').allowed, true)
+  assert.equal(limiter.take('a').allowed, false)
+  assert.equal(limiter.take('b').allowed, true)
+})
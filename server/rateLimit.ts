@@ -0,0 +1,42 @@
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+export interface RateLimiter {
+  /** Take one token for this client; returns seconds to wait if none are left */
+  take(clientId: string): { allowed: true } | { allowed: false; retryAfterSeconds: number }
+}
+
+/**
+ * Per-client token bucket: `perMinute` requests on average, bursts up to `burst`
+ */
+export function createRateLimiter(perMinute: number, burst: number = perMinute): RateLimiter {
+  const buckets = new Map<string, Bucket>()
+  const refillPerMs = perMinute / 60_000
+
+  // Forget idle clients so the map doesn't grow without bound
+  setInterval(() => {
+    const cutoff = Date.now() - 10 * 60_000
+    for (const [id, bucket] of buckets) {
+      if (bucket.updatedAt < cutoff) buckets.delete(id)
+    }
+  }, 60_000).unref()
+
+  return {
+    take(clientId) {
+      const now = Date.now()
+      const bucket = buckets.get(clientId) ?? { tokens: burst, updatedAt: now }
+      bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      bucket.updatedAt = now
+      buckets.set(clientId, bucket)
+
+      if (bucket.tokens < 1) {
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) }
+      }
+
+      bucket.tokens -= 1
+      return { allowed: true }
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Loader2 } from 'lucide-react'
+
+interface AnalysisProgressBarProps {
+  stage: string
+  done?: number
+  total?: number
+  // Show progress as a percentage rather than "done / total"
+  percent?: boolean
+}
+
+/**
+ * Thin progress line along the bottom of the navbar, with a small stage pill,
+ * shown over partial results while the rest of the analysis streams in.
+ * Render inside a positioned container.
+ */
+export function AnalysisProgressBar({ stage, done = 0, total = 0, percent = false }: AnalysisProgressBarProps) {
+  const fraction = total > 0 ? Math.min(1, done / total) : 0
+
+  return (
+    <>
+      <div className="absolute left-0 right-0 bottom-0 h-0.5 bg-gray-100">
+        <div className="h-full bg-sky-500 transition-all duration-300" style={{ width: `${fraction * 100}%` }} />
+      </div>
+      <div className="absolute right-3 sm:right-6 top-full mt-2 flex items-center gap-1.5 px-2.5 py-1 bg-white border border-gray-200 rounded-full shadow-sm text-[10px] sm:text-xs text-gray-500 pointer-events-none">
+        <Loader2 className="w-3 h-3 text-sky-500 animate-spin" />
+        <span>{stage}</span>
+        {total > 1 && (
+          <span className="text-gray-400 tabular-nums">
+            {percent ? `${Math.round(fraction * 100)}%` : `${done.toLocaleString()} / ${total.toLocaleString()}`}
+          </span>
+        )}
+      </div>
+    </>
+  )
+}
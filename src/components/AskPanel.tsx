@@ -0,0 +1,146 @@
+import { FormEvent, useEffect, useRef, useState } from 'react'
+import { MessageCircleQuestion, Loader2, ThumbsUp, X } from 'lucide-react'
+import { CommentWithEmbedding } from '@/utils/embeddings'
+import { EmbeddingProvider } from '@/utils/embeddingProviders'
+import { LLMProvider } from '@/utils/llmProvider'
+import { askComments, Answer } from '@/utils/questions'
+
+interface AskPanelProps {
+  comments: CommentWithEmbedding[]
+  embeddingProvider: EmbeddingProvider
+  llmProvider: LLMProvider
+}
+
+/**
+ * "Ask the comment section": a question is answered from the comments closest
+ * to it, and each sentence's citations open the comments it rests on
+ */
+export function AskPanel({ comments, embeddingProvider, llmProvider }: AskPanelProps) {
+  const [question, setQuestion] = useState('')
+  const [answer, setAnswer] = useState<Answer | null>(null)
+  const [isAsking, setIsAsking] = useState(false)
+  const [openId, setOpenId] = useState<string | null>(null)
+  const controller = useRef<AbortController | null>(null)
+
+  // Drop an in-flight question when the panel goes away
+  useEffect(() => () => controller.current?.abort(), [])
+
+  const handleAsk = (e: FormEvent) => {
+    e.preventDefault()
+    const asked = question.trim()
+    if (!asked || comments.length === 0) return
+
+    controller.current?.abort()
+    const current = new AbortController()
+    controller.current = current
+    setIsAsking(true)
+    setOpenId(null)
+
+    askComments(asked, comments, { embeddingProvider, llmProvider, signal: current.signal })
+      .then(setAnswer)
+      .catch((err) => {
+        if (current.signal.aborted) return
+        console.error('Failed to answer question:', err)
+        setAnswer({ question: asked, status: 'failed', sentences: [], retrieved: [] })
+      })
+      .finally(() => {
+        if (controller.current === current) setIsAsking(false)
+      })
+  }
+
+  // Number citations in order of first appearance
+  const citationNumbers = new Map<string, number>()
+  for (const sentence of answer?.sentences ?? []) {
+    for (const id of sentence.commentIds) {
+      if (!citationNumbers.has(id)) citationNumbers.set(id, citationNumbers.size + 1)
+    }
+  }
+  const opened = answer?.retrieved.find((r) => r.comment.id === openId)?.comment
+
+  return (
+    <div className="max-w-2xl mx-auto mb-4 lg:mb-6 p-3 sm:p-4 bg-white rounded-lg lg:rounded-xl border border-gray-200 shadow-sm">
+      <form onSubmit={handleAsk} className="flex items-center gap-2">
+        <MessageCircleQuestion className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask the comment section, e.g. what do people say about the guitar solo?"
+          className="flex-1 min-w-0 py-1.5 text-xs sm:text-sm text-gray-700 placeholder:text-gray-400 bg-transparent focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !question.trim()}
+          className="px-3 py-1.5 text-xs sm:text-sm text-white bg-sky-500 hover:bg-sky-600 disabled:bg-gray-200 disabled:text-gray-400 rounded-lg transition-colors flex items-center gap-1.5"
+        >
+          {isAsking && <Loader2 className="w-3 h-3 animate-spin" />}
+          Ask
+        </button>
+      </form>
+
+      {answer && !isAsking && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          {answer.status === 'answered' && (
+            <p className="text-sm text-gray-600 leading-relaxed">
+              {answer.sentences.map((sentence, idx) => (
+                <span key={idx}>
+                  {sentence.text}
+                  {sentence.commentIds.map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => setOpenId(openId === id ? null : id)}
+                      title="Show this comment"
+                      className={`ml-0.5 px-1 rounded text-[10px] align-super transition-colors ${
+                        openId === id ? 'bg-sky-500 text-white' : 'text-sky-500 hover:bg-sky-50'
+                      }`}
+                    >
+                      {citationNumbers.get(id)}
+                    </button>
+                  ))}{' '}
+                </span>
+              ))}
+            </p>
+          )}
+          {answer.status === 'noRelevantComments' && (
+            <p className="text-xs sm:text-sm text-gray-500">
+              No comments in this sample talk about that, so there's nothing to answer from.
+            </p>
+          )}
+          {answer.status === 'failed' && (
+            <div>
+              <p className="text-xs sm:text-sm text-amber-700">
+                Couldn't get an answer{answer.failure ? `: ${answer.failure.message}` : ''}.
+                {answer.retrieved.length > 0 && ' These are the closest comments:'}
+              </p>
+              <div className="mt-2 space-y-1.5">
+                {answer.retrieved.slice(0, 5).map(({ comment }) => (
+                  <p key={comment.id} className="text-xs sm:text-sm text-gray-500 italic line-clamp-2">"{comment.text}"</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {opened && (
+            <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              <div className="flex items-center justify-between gap-2 text-[10px] sm:text-xs text-gray-400">
+                <span className="font-medium text-gray-500 truncate">
+                  [{citationNumbers.get(opened.id)}] @{opened.authorName}
+                </span>
+                <button onClick={() => setOpenId(null)} className="hover:text-gray-600 transition-colors">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <p className="text-xs sm:text-sm text-gray-700 mt-1 leading-relaxed">{opened.text}</p>
+              {opened.likeCount > 0 && (
+                <div className="flex items-center gap-1 mt-1.5 text-[10px] sm:text-xs text-gray-400">
+                  <ThumbsUp className="w-3 h-3" />
+                  {opened.likeCount}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -69,6 +69,11 @@ export function ClaimsView({
                   <span className="claim-citation">
                     ({claim.commentCount} comments)
                   </span>
+                  {claim.statedCount !== claim.commentCount && (
+                    <span className="claim-count-warning">
+                      The model said {claim.statedCount}; the cited clusters hold {claim.commentCount}.
+                    </span>
+                  )}
                 </button>
 
                 {isExpanded && (
@@ -0,0 +1,175 @@
+import { FormEvent, Fragment, useEffect, useRef, useState } from 'react'
+import { Search, Loader2, X, Sparkles } from 'lucide-react'
+import { CommentWithEmbedding } from '@/utils/embeddings'
+import { EmbeddingProvider } from '@/utils/embeddingProviders'
+import { Comment } from '@/utils/youtube'
+import { SearchMode, keywordSearch, searchTerms, semanticSearch } from '@/utils/search'
+
+/**
+ * What the views highlight: matching comment ids, plus the terms to mark in
+ * their text (none for semantic matches)
+ */
+export interface SearchResults {
+  label: string
+  ids: Set<string>
+  terms: string[]
+}
+
+interface CommentSearchProps {
+  // Every loaded comment, replies included, for keyword matching
+  allComments: Comment[]
+  // Embedded comments, for semantic matching
+  comments: CommentWithEmbedding[]
+  embeddingProvider: EmbeddingProvider
+  results: SearchResults | null
+  onResults: (results: SearchResults | null) => void
+}
+
+const MODES: { id: SearchMode; label: string }[] = [
+  { id: 'keyword', label: 'Keyword' },
+  { id: 'semantic', label: 'Meaning' },
+]
+
+/**
+ * Search within the analyzed comments: keyword matches as you type, meaning
+ * matches on Enter. Results are shown by whichever dial level is open.
+ */
+export function CommentSearch({ allComments, comments, embeddingProvider, results, onResults }: CommentSearchProps) {
+  const [query, setQuery] = useState('')
+  const [mode, setMode] = useState<SearchMode>('keyword')
+  const [isSearching, setIsSearching] = useState(false)
+  const controller = useRef<AbortController | null>(null)
+
+  useEffect(() => () => controller.current?.abort(), [])
+
+  const runKeyword = (text: string) => {
+    const matches = keywordSearch(text, allComments)
+    onResults(text.trim() ? { label: `"${text.trim()}"`, ids: new Set(matches.map((m) => m.commentId)), terms: searchTerms(text) } : null)
+  }
+
+  const runSemantic = (text: string) => {
+    const asked = text.trim()
+    if (!asked) return onResults(null)
+
+    controller.current?.abort()
+    const current = new AbortController()
+    controller.current = current
+    setIsSearching(true)
+
+    semanticSearch(asked, comments, { provider: embeddingProvider, signal: current.signal })
+      .then((matches) => onResults({ label: `like "${asked}"`, ids: new Set(matches.map((m) => m.commentId)), terms: [] }))
+      .catch((err) => {
+        if (current.signal.aborted) return
+        console.error('Semantic search failed:', err)
+        onResults({ label: `like "${asked}"`, ids: new Set(), terms: [] })
+      })
+      .finally(() => {
+        if (controller.current === current) setIsSearching(false)
+      })
+  }
+
+  const handleChange = (text: string) => {
+    setQuery(text)
+    if (mode === 'keyword') runKeyword(text)
+    else if (!text.trim()) onResults(null)
+  }
+
+  const handleModeChange = (next: SearchMode) => {
+    setMode(next)
+    controller.current?.abort()
+    setIsSearching(false)
+    if (next === 'keyword') runKeyword(query)
+    else runSemantic(query)
+  }
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (mode === 'semantic') runSemantic(query)
+  }
+
+  const handleClear = () => {
+    controller.current?.abort()
+    setIsSearching(false)
+    setQuery('')
+    onResults(null)
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto mb-4 lg:mb-6">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2 px-3 py-1.5 bg-white rounded-lg lg:rounded-xl border border-gray-200 shadow-sm">
+        {isSearching ? <Loader2 className="w-4 h-4 text-gray-400 animate-spin flex-shrink-0" /> : <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />}
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder={mode === 'keyword' ? 'Search these comments' : 'Describe what to find, then press Enter'}
+          className="flex-1 min-w-0 py-1 text-xs sm:text-sm text-gray-700 placeholder:text-gray-400 bg-transparent focus:outline-none"
+        />
+        <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg text-[10px] sm:text-xs flex-shrink-0">
+          {MODES.map(({ id, label }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => handleModeChange(id)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                mode === id ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </form>
+
+      {results && (
+        <div className="flex items-center justify-between gap-2 mt-2 px-1 text-[10px] sm:text-xs text-gray-500">
+          <span className="truncate">
+            {results.ids.size === 0 ? 'No comments' : `${results.ids.size} ${results.ids.size === 1 ? 'comment' : 'comments'}`} {results.label}
+          </span>
+          <button onClick={handleClear} className="flex items-center gap-1 text-gray-400 hover:text-gray-600 flex-shrink-0 transition-colors">
+            <X className="w-3 h-3" />
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Text with every occurrence of the search terms marked
+ */
+export function Highlight({ text, terms }: { text: string; terms?: string[] }) {
+  if (!terms || terms.length === 0) return <>{text}</>
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">{part}</mark>
+          : <Fragment key={i}>{part}</Fragment>
+      )}
+    </>
+  )
+}
+
+/**
+ * Small action that searches for comments close in meaning to this one
+ */
+export function MoreLikeThisButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title="Find comments like this one"
+      className="inline-flex items-center gap-1 text-[10px] sm:text-xs text-gray-400 hover:text-sky-500 transition-colors"
+    >
+      <Sparkles className="w-3 h-3" />
+      More like this
+    </button>
+  )
+}
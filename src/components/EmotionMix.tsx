@@ -0,0 +1,99 @@
+import { Heart } from 'lucide-react'
+import { EMOTIONS, POLARITIES, Emotion, Polarity, Sentiment, summarizeEmotions } from '@/utils/emotions'
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  nostalgia: 'bg-amber-400',
+  joy: 'bg-yellow-300',
+  grief: 'bg-indigo-400',
+  love: 'bg-pink-400',
+  anger: 'bg-red-500',
+  humor: 'bg-emerald-400',
+}
+
+const POLARITY_COLORS: Record<Polarity, string> = {
+  positive: 'bg-emerald-400',
+  neutral: 'bg-gray-300',
+  negative: 'bg-rose-400',
+}
+
+const percent = (count: number, total: number) => Math.round((count / total) * 100)
+
+interface EmotionMixProps {
+  comments: { sentiment?: Sentiment }[]
+  // The theme's members; all comments when omitted
+  indices?: number[]
+}
+
+/**
+ * A theme's emotions as one stacked bar, with the strongest named below it
+ */
+export function EmotionMix({ comments, indices }: EmotionMixProps) {
+  const { total, emotions } = summarizeEmotions(comments, indices)
+  const present = EMOTIONS.filter((e) => emotions[e] > 0).sort((a, b) => emotions[b] - emotions[a])
+  if (total === 0 || present.length === 0) return null
+
+  const labeled = present.reduce((sum, e) => sum + emotions[e], 0)
+
+  return (
+    <div className="mb-3 sm:mb-4">
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-gray-100">
+        {present.map((e) => (
+          <div key={e} className={EMOTION_COLORS[e]} style={{ width: `${(emotions[e] / labeled) * 100}%` }} title={e} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1.5">
+        {present.slice(0, 3).map((e) => (
+          <span key={e} className="flex items-center gap-1 text-[10px] sm:text-xs text-gray-500">
+            <span className={`w-1.5 h-1.5 rounded-full ${EMOTION_COLORS[e]}`} />
+            {e} {percent(emotions[e], total)}%
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * The whole comment section's mood: polarity split and how often each emotion shows up
+ */
+export function EmotionProfile({ comments }: { comments: { sentiment?: Sentiment }[] }) {
+  const { total, polarity, emotions } = summarizeEmotions(comments)
+  if (total === 0) return null
+
+  const refined = comments.some((c) => c.sentiment?.source === 'model')
+
+  return (
+    <div className="mb-6 lg:mb-8 p-3 sm:p-4 bg-white rounded-xl border border-gray-200 shadow-sm">
+      <h3 className="text-xs sm:text-sm text-gray-700 flex items-center gap-2 mb-3">
+        <Heart className="w-4 h-4 text-gray-400" />
+        Emotional profile
+      </h3>
+
+      <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+        {POLARITIES.map((p) => (
+          <div key={p} className={POLARITY_COLORS[p]} style={{ width: `${(polarity[p] / total) * 100}%` }} title={p} />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] sm:text-xs text-gray-500">
+        {POLARITIES.map((p) => (
+          <span key={p}>{p} {percent(polarity[p], total)}%</span>
+        ))}
+      </div>
+
+      <div className="mt-3 space-y-1.5">
+        {[...EMOTIONS].sort((a, b) => emotions[b] - emotions[a]).map((e) => (
+          <div key={e} className="flex items-center gap-2 text-[10px] sm:text-xs">
+            <span className="w-16 text-gray-600">{e}</span>
+            <div className="flex-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${EMOTION_COLORS[e]}`} style={{ width: `${(emotions[e] / total) * 100}%` }} />
+            </div>
+            <span className="w-8 text-right text-gray-400 tabular-nums">{percent(emotions[e], total)}%</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-400 mt-2">
+        Share of {total} comments{refined ? ', labeled by the language model' : ', by similarity to example comments'}
+      </p>
+    </div>
+  )
+}
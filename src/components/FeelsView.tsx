@@ -117,7 +117,9 @@ export function FeelsView({ comments, totalComments, opacity = 1 }: FeelsViewPro
               <div className="yt-comment-content">
                 <div className="yt-comment-header">
                   <span className="yt-comment-author">{displayName}</span>
-                  <span className="yt-comment-time">{formatTimeAgo(comment.publishedAt)}</span>
+                  {comment.publishedAt && (
+                    <span className="yt-comment-time">{formatTimeAgo(comment.publishedAt)}</span>
+                  )}
                 </div>
                 <div className="yt-comment-text">{comment.text}</div>
                 {comment.likeCount > 0 && (
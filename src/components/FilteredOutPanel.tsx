@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { ShieldOff, ChevronDown } from 'lucide-react'
+import { FilteredComment, SpamReason, SPAM_REASON_LABELS, countSpamReasons } from '@/utils/spamFilter'
+
+interface FilteredOutPanelProps {
+  filteredOut: FilteredComment[]
+}
+
+const PREVIEW_COUNT = 10
+
+/**
+ * How many comments the spam filter left out and why, with the comments
+ * themselves one click away so nothing is dropped silently
+ */
+export function FilteredOutPanel({ filteredOut }: FilteredOutPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+
+  if (filteredOut.length === 0) return null
+
+  const counts = Object.entries(countSpamReasons(filteredOut)) as [SpamReason, number][]
+  const visible = showAll ? filteredOut : filteredOut.slice(0, PREVIEW_COUNT)
+
+  return (
+    <div className="mb-6 lg:mb-8 p-3 sm:p-4 bg-white rounded-xl border border-gray-200 shadow-sm">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-xs sm:text-sm text-gray-700"
+      >
+        <span className="flex items-center gap-2">
+          <ShieldOff className="w-4 h-4 text-gray-400" />
+          {filteredOut.length} excluded as spam
+        </span>
+        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+      </button>
+      <div className="flex flex-wrap gap-1 sm:gap-1.5 mt-2">
+        {counts.map(([reason, count]) => (
+          <span key={reason} className="px-1.5 sm:px-2 py-0.5 bg-gray-100 rounded text-[10px] sm:text-xs text-gray-600">
+            {SPAM_REASON_LABELS[reason]} · {count}
+          </span>
+        ))}
+      </div>
+
+      {expanded && (
+        <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+          {visible.map(({ comment, reasons }) => (
+            <div key={comment.id}>
+              <p className="text-[10px] sm:text-xs text-gray-500 line-clamp-2">"{comment.text}"</p>
+              <p className="text-[10px] text-gray-400 mt-0.5">
+                @{comment.authorName} · {reasons.map((r) => SPAM_REASON_LABELS[r]).join(', ')}
+              </p>
+            </div>
+          ))}
+          {filteredOut.length > PREVIEW_COUNT && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="text-[10px] sm:text-xs text-sky-500 hover:text-sky-600 transition-colors"
+            >
+              {showAll ? 'Show fewer' : `Show all ${filteredOut.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
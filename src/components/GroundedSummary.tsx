@@ -0,0 +1,71 @@
+import { useState } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { GroundedSentence } from '@/utils/grounding'
+
+interface GroundedSummaryProps {
+  summary: string
+  sentences: GroundedSentence[]
+}
+
+/**
+ * Summary prose where each sentence opens onto the comments closest to it,
+ * and sentences no comment really supports are marked
+ */
+export function GroundedSummary({ summary, sentences }: GroundedSummaryProps) {
+  const [selected, setSelected] = useState<number | null>(null)
+
+  // Grounding unavailable (e.g. embeddings failed): plain prose
+  if (sentences.length === 0) {
+    return <p className="text-sm sm:text-base text-gray-600 leading-relaxed mb-6 sm:mb-8">{summary}</p>
+  }
+
+  const weakCount = sentences.filter((s) => s.weak).length
+  const active = selected !== null ? sentences[selected] : null
+
+  return (
+    <div className="mb-6 sm:mb-8">
+      <p className="text-sm sm:text-base text-gray-600 leading-relaxed">
+        {sentences.map((sentence, idx) => (
+          <span key={idx}>
+            <span
+              onClick={() => setSelected(selected === idx ? null : idx)}
+              title={sentence.weak ? 'Few comments say anything like this' : 'Show supporting comments'}
+              className={`cursor-pointer rounded transition-colors ${
+                sentence.weak
+                  ? 'underline decoration-dotted decoration-amber-400 underline-offset-4 text-gray-500 hover:bg-amber-50'
+                  : 'hover:bg-sky-50'
+              } ${selected === idx ? (sentence.weak ? 'bg-amber-50' : 'bg-sky-50') : ''}`}
+            >
+              {sentence.text}
+            </span>{' '}
+          </span>
+        ))}
+      </p>
+
+      {weakCount > 0 && (
+        <p className="flex items-center gap-1.5 text-[10px] sm:text-xs text-amber-600 mt-2">
+          <AlertTriangle className="w-3 h-3" />
+          {weakCount === 1 ? '1 sentence is' : `${weakCount} sentences are`} weakly grounded in the comments. Click a sentence to see its evidence.
+        </p>
+      )}
+
+      {active && (
+        <div className="mt-3 p-3 sm:p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider mb-2">
+            {active.support === null
+              ? 'Could not be checked'
+              : `Support ${Math.round(active.support * 100)}%${active.weak ? ' · weak' : ''}`}
+          </p>
+          <div className="space-y-2">
+            {active.evidence.map((e) => (
+              <p key={e.commentIndex} className="text-xs sm:text-sm text-gray-600 italic leading-relaxed">
+                "{e.text.length > 200 ? e.text.slice(0, 200) + '...' : e.text}"
+                <span className="not-italic text-[10px] text-gray-400 ml-1.5">{Math.round(e.similarity * 100)}% similar</span>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+import { Keyword } from '@/utils/keywords'
+
+interface KeywordChipsProps {
+  keywords?: Keyword[]
+}
+
+/**
+ * Words a cluster uses far more than the rest of the comment section,
+ * as a check on its AI-written name
+ */
+export function KeywordChips({ keywords }: KeywordChipsProps) {
+  if (!keywords || keywords.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-1 sm:gap-1.5 mb-2 sm:mb-3">
+      {keywords.map((keyword) => (
+        <span
+          key={keyword.term}
+          className="px-1.5 sm:px-2 py-0.5 bg-gray-100 rounded text-[10px] sm:text-xs text-gray-600"
+          title="Distinctive for this cluster (c-TF-IDF)"
+        >
+          {keyword.term}
+        </span>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { AlertTriangle, ChevronDown, X } from 'lucide-react'
+import { LLMTask } from '@/config/settings'
+import { LLMFailure } from '@/utils/llm'
+
+interface LLMFailureNoticeProps {
+  failures: LLMFailure[]
+}
+
+const TASK_LABELS: Record<LLMTask, string> = {
+  naming: 'Theme names',
+  summary: 'Summary',
+  claims: 'Claims',
+  stories: 'Listener stories',
+  spam: 'Spam check',
+  emotions: 'Emotion labels',
+  answer: 'Answers',
+}
+
+/**
+ * Tells the reader which AI-written parts are placeholders, and why
+ */
+export function LLMFailureNotice({ failures }: LLMFailureNoticeProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [dismissed, setDismissed] = useState(false)
+
+  if (failures.length === 0 || dismissed) return null
+
+  return (
+    <div className="max-w-2xl mx-auto mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg lg:rounded-xl">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs sm:text-sm text-amber-800">
+            Some parts fell back to placeholders: {failures.map(f => TASK_LABELS[f.task]).join(', ')}.
+          </p>
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1 text-[10px] sm:text-xs text-amber-600 hover:text-amber-700 mt-1 transition-colors"
+          >
+            <ChevronDown className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+            {expanded ? 'Hide details' : 'Details'}
+          </button>
+          {expanded && (
+            <ul className="mt-2 space-y-2">
+              {failures.map((failure, idx) => (
+                <li key={idx} className="text-[10px] sm:text-xs text-amber-700">
+                  <span className="font-medium">{TASK_LABELS[failure.task]}:</span> {failure.message}
+                  {failure.errors.length > 0 && (
+                    <ul className="mt-1 ml-3 list-disc list-inside text-amber-600">
+                      {failure.errors.slice(0, 5).map((error, i) => <li key={i}>{error}</li>)}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <button onClick={() => setDismissed(true)} className="text-amber-400 hover:text-amber-600 transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
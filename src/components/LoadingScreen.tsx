@@ -14,9 +14,13 @@ const loadingMessages = [
 
 interface LoadingScreenProps {
   stage?: string
+  done?: number
+  total?: number
+  // Show progress as a percentage rather than "done / total"
+  percent?: boolean
 }
 
-export function LoadingScreen({ stage }: LoadingScreenProps) {
+export function LoadingScreen({ stage, done = 0, total = 0, percent = false }: LoadingScreenProps) {
   const [factIndex, setFactIndex] = useState(
     Math.floor(Math.random() * funFacts.length)
   )
@@ -54,6 +58,21 @@ export function LoadingScreen({ stage }: LoadingScreenProps) {
         {displayMessage}
       </p>
 
+      {/* Stage progress (only for stages that count items) */}
+      {total > 1 && (
+        <div className="mt-3 w-40 sm:w-56">
+          <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-sky-500 transition-all duration-300"
+              style={{ width: `${Math.min(100, (done / total) * 100)}%` }}
+            />
+          </div>
+          <p className="mt-1.5 text-[10px] text-gray-400 text-center tabular-nums">
+            {percent ? `${Math.round((done / total) * 100)}%` : `${done} / ${total}`}
+          </p>
+        </div>
+      )}
+
       {/* Divider */}
       <div className="w-32 sm:w-48 h-px bg-gradient-to-r from-transparent via-gray-300 to-transparent my-6 sm:my-8" />
 
@@ -0,0 +1,53 @@
+import { useState } from 'react'
+import { ChevronRight } from 'lucide-react'
+import { Comment } from '@/utils/youtube'
+
+interface MinorityVoicesProps {
+  comments: Comment[]
+  // Comment indices, farthest from the theme's centre first
+  minority: number[]
+}
+
+const PREVIEW_COUNT = 3
+
+/**
+ * Members of a theme that sit far from its centre: the people in the room
+ * who don't quite agree. Collapsed by default, never dropped.
+ */
+export function MinorityVoices({ comments, minority }: MinorityVoicesProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [showAll, setShowAll] = useState(false)
+
+  if (minority.length === 0) return null
+
+  const visible = showAll ? minority : minority.slice(0, PREVIEW_COUNT)
+
+  return (
+    <div className="mt-3 sm:mt-4 pt-3 border-t border-gray-100">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-[10px] sm:text-xs text-amber-600 hover:text-amber-700 transition-colors"
+      >
+        <ChevronRight className={`w-3 h-3 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+        Minority within this theme · {minority.length}
+      </button>
+      {expanded && (
+        <div className="mt-2 space-y-2">
+          {visible.map((i) => (
+            <p key={i} className="pl-3 border-l-2 border-amber-100 text-[10px] sm:text-xs text-gray-500 line-clamp-2">
+              "{comments[i]?.text}"
+            </p>
+          ))}
+          {minority.length > PREVIEW_COUNT && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="text-[10px] sm:text-xs text-sky-500 hover:text-sky-600 transition-colors"
+            >
+              {showAll ? 'Show fewer' : `Show all ${minority.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import { MessageCircle, ThumbsUp } from 'lucide-react'
+import { Cluster } from '@/utils/clustering'
+import { Comment, formatCount } from '@/utils/youtube'
+import { clusterSupport, ClusterSupport } from '@/utils/weights'
+
+interface SaidVsUpvotedProps {
+  clusters: Cluster[]
+  comments: Comment[]
+  themeName: (themeId: number) => string
+}
+
+const TOP_COUNT = 5
+
+/**
+ * Themes ranked twice, side by side: by how many people said it and by how
+ * many likes it collected. Where the two lists disagree is the story.
+ */
+export function SaidVsUpvoted({ clusters, comments, themeName }: SaidVsUpvotedProps) {
+  const support = clusterSupport(clusters, comments)
+  const totalVoices = support.reduce((sum, s) => sum + s.voices, 0)
+  const totalLikes = support.reduce((sum, s) => sum + s.endorsements, 0)
+  if (support.length < 2 || totalVoices === 0) return null
+
+  const columns: { title: string; icon: typeof ThumbsUp; key: 'voices' | 'endorsements'; total: number; label: (s: ClusterSupport) => string }[] = [
+    { title: 'Said most', icon: MessageCircle, key: 'voices', total: totalVoices, label: (s) => `${s.voices} voices` },
+    { title: 'Upvoted most', icon: ThumbsUp, key: 'endorsements', total: totalLikes, label: (s) => formatCount(String(s.endorsements), 'likes') },
+  ]
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+      {columns.map(({ title, icon: Icon, key, total, label }) => (
+        <div key={key}>
+          <h4 className="flex items-center gap-1.5 text-[10px] sm:text-xs text-gray-500 mb-2">
+            <Icon className="w-3 h-3" />
+            {title}
+          </h4>
+          {total === 0 ? (
+            <p className="text-[10px] sm:text-xs text-gray-400">No likes on these comments yet.</p>
+          ) : (
+            <ol className="space-y-2">
+              {[...support].sort((a, b) => b[key] - a[key]).slice(0, TOP_COUNT).map((s) => (
+                <li key={s.clusterId}>
+                  <div className="flex items-baseline justify-between gap-2 text-xs sm:text-sm">
+                    <span className="text-gray-700 truncate">{themeName(s.clusterId)}</span>
+                    <span className="text-[10px] sm:text-xs text-gray-400 flex-shrink-0 tabular-nums">{label(s)}</span>
+                  </div>
+                  <div className="mt-1 h-1 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${key === 'voices' ? 'bg-sky-400' : 'bg-pink-400'}`}
+                      style={{ width: `${(s[key] / total) * 100}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
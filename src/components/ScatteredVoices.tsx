@@ -0,0 +1,52 @@
+import { useState } from 'react'
+import { Sparkle } from 'lucide-react'
+import { Comment } from '@/utils/youtube'
+
+interface ScatteredVoicesProps {
+  comments: Comment[]
+  noise: number[]
+  title?: string
+  // Shown after the count, e.g. "comments in no cluster"
+  caption?: string
+}
+
+const PREVIEW_COUNT = 4
+
+/**
+ * Comments that fit no cluster: one-off jokes, unique stories, spam.
+ * Shown on their own rather than smeared into the nearest theme.
+ */
+export function ScatteredVoices({ comments, noise, title = 'Scattered voices', caption = 'comments in no cluster' }: ScatteredVoicesProps) {
+  const [showAll, setShowAll] = useState(false)
+
+  if (noise.length === 0) return null
+
+  const visible = showAll ? noise : noise.slice(0, PREVIEW_COUNT)
+
+  return (
+    <div className="mt-4 sm:mt-6 p-3 sm:p-4 lg:p-5 bg-gray-50 rounded-lg lg:rounded-xl border border-dashed border-gray-300">
+      <div className="flex items-center justify-between mb-2 sm:mb-3">
+        <h3 className="text-sm sm:text-base font-medium text-gray-700 flex items-center gap-2">
+          <Sparkle className="w-4 h-4 text-gray-400" />
+          {title}
+        </h3>
+        <span className="text-[10px] sm:text-xs text-gray-400">{noise.length} {caption}</span>
+      </div>
+      <div className="space-y-1.5 sm:space-y-2">
+        {visible.map((i) => (
+          <p key={i} className="text-[10px] sm:text-xs text-gray-500 line-clamp-2">
+            "{comments[i]?.text}"
+          </p>
+        ))}
+      </div>
+      {noise.length > PREVIEW_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-[10px] sm:text-xs text-sky-500 hover:text-sky-600 mt-2 sm:mt-3 transition-colors"
+        >
+          {showAll ? 'Show fewer' : `Show all ${noise.length}`}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import { X, Database, Trash2, Cpu, MessageSquare, Shapes, MessagesSquare, ShieldOff } from 'lucide-react'
+import { AppSettings, ClusteringMethod, LLMBackend, LLMTask, SpamFilterSettings } from '@/config/settings'
+import { EMBEDDING_PROVIDERS } from '@/utils/embeddingProviders'
+import { getEmbeddingCacheStats, clearEmbeddingCache, EmbeddingCacheStats, EMBEDDING_CACHE_LIMITS } from '@/utils/embeddingCache'
+
+interface SettingsModalProps {
+  settings: AppSettings
+  onChange: (patch: Partial<AppSettings>) => void
+  onClose: () => void
+}
+
+const LLM_BACKENDS: { id: LLMBackend; label: string }[] = [
+  { id: 'openai', label: 'OpenAI' },
+  { id: 'openai-compatible', label: 'Local server (OpenAI-compatible)' },
+  { id: 'mock', label: 'Mock (deterministic, no model)' },
+]
+
+const CLUSTERING_METHODS: { id: ClusteringMethod; label: string }[] = [
+  { id: 'hierarchical', label: 'Hierarchical (clusters nest inside themes)' },
+  { id: 'kmeans', label: 'k-means (every comment in a theme)' },
+  { id: 'density', label: 'Density (finds theme count, keeps outliers apart)' },
+]
+
+const SPAM_RULES: { id: keyof SpamFilterSettings; label: string }[] = [
+  { id: 'urls', label: 'Comments with links' },
+  { id: 'channelPlugs', label: 'Channel plugs ("check out my channel")' },
+  { id: 'emojiFloods', label: 'Emoji-only floods' },
+  { id: 'repeatedAuthors', label: 'Authors posting again and again' },
+  { id: 'llmClassifier', label: 'Also ask the language model' },
+]
+
+const SAMPLE_SIZES = [200, 500, 1000, 2000, 5000]
+
+const LLM_TASKS: { id: LLMTask; label: string }[] = [
+  { id: 'naming', label: 'Theme names' },
+  { id: 'summary', label: 'Summary' },
+  { id: 'claims', label: 'Claims' },
+  { id: 'stories', label: 'Stories' },
+  { id: 'spam', label: 'Spam check' },
+  { id: 'emotions', label: 'Emotions' },
+  { id: 'answer', label: 'Answers' },
+]
+
+/**
+ * Text field that only reports its value on blur or Enter,
+ * so typing a URL doesn't restart the analysis on every keystroke
+ */
+function CommitInput({ value, onCommit, placeholder }: { value: string; onCommit: (value: string) => void; placeholder?: string }) {
+  const [draft, setDraft] = useState(value)
+
+  const commit = () => {
+    const trimmed = draft.trim()
+    if (trimmed && trimmed !== value) onCommit(trimmed)
+    else setDraft(value)
+  }
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="w-full px-2.5 py-1.5 text-xs sm:text-sm text-gray-700 bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-sky-400"
+    />
+  )
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
+  if (bytes >= 1024) return (bytes / 1024).toFixed(0) + ' KB'
+  return bytes + ' B'
+}
+
+export function SettingsModal({ settings, onChange, onClose }: SettingsModalProps) {
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null)
+  const [clearing, setClearing] = useState(false)
+
+  useEffect(() => {
+    getEmbeddingCacheStats()
+      .then(setCacheStats)
+      .catch((err) => console.error('Failed to read embedding cache stats:', err))
+  }, [])
+
+  const handleClearCache = async () => {
+    setClearing(true)
+    try {
+      await clearEmbeddingCache()
+      setCacheStats(await getEmbeddingCacheStats())
+    } catch (err) {
+      console.error('Failed to clear embedding cache:', err)
+    } finally {
+      setClearing(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm p-0 sm:p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0, y: 20 }}
+        animate={{ scale: 1, opacity: 1, y: 0 }}
+        exit={{ scale: 0.9, opacity: 0, y: 20 }}
+        className="bg-white border-t sm:border border-gray-200 rounded-t-2xl sm:rounded-2xl p-5 sm:p-6 max-w-md w-full max-h-[80vh] overflow-y-auto shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="text-base sm:text-lg font-medium text-gray-900">Settings</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Embedding provider */}
+        <section className="space-y-2 mb-6">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <Cpu className="w-3.5 h-3.5" />
+            Embeddings
+          </h4>
+          <div className="space-y-1.5">
+            {Object.values(EMBEDDING_PROVIDERS).map((provider) => (
+              <label
+                key={provider.id}
+                className={`flex items-center gap-3 p-2.5 rounded-lg border cursor-pointer transition-colors ${
+                  settings.embeddingProvider === provider.id ? 'border-sky-300 bg-sky-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="embedding-provider"
+                  className="accent-sky-500"
+                  checked={settings.embeddingProvider === provider.id}
+                  onChange={() => onChange({ embeddingProvider: provider.id })}
+                />
+                <span className="text-xs sm:text-sm text-gray-700">{provider.label}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] sm:text-xs text-gray-400">
+            On-device embeddings work offline and without an API key, with less nuanced grouping.
+          </p>
+        </section>
+
+        {/* Clustering */}
+        <section className="space-y-2 mb-6">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <Shapes className="w-3.5 h-3.5" />
+            Clustering
+          </h4>
+          <div className="space-y-1.5">
+            {CLUSTERING_METHODS.map((method) => (
+              <label
+                key={method.id}
+                className={`flex items-center gap-3 p-2.5 rounded-lg border cursor-pointer transition-colors ${
+                  settings.clustering === method.id ? 'border-sky-300 bg-sky-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="clustering-method"
+                  className="accent-sky-500"
+                  checked={settings.clustering === method.id}
+                  onChange={() => onChange({ clustering: method.id })}
+                />
+                <span className="text-xs sm:text-sm text-gray-700">{method.label}</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-3 p-2.5 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer transition-colors">
+            <input
+              type="checkbox"
+              className="accent-sky-500"
+              checked={settings.likeWeighting}
+              onChange={(e) => onChange({ likeWeighting: e.target.checked })}
+            />
+            <span className="text-xs sm:text-sm text-gray-700">Weight comments by likes (log-scaled)</span>
+          </label>
+        </section>
+
+        {/* Sample size */}
+        <section className="space-y-2 mb-6">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <MessagesSquare className="w-3.5 h-3.5" />
+            Sample size
+          </h4>
+          <select
+            value={settings.sampleSize}
+            onChange={(e) => onChange({ sampleSize: Number(e.target.value) })}
+            className="w-full px-2.5 py-2 text-xs sm:text-sm text-gray-700 bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-sky-400"
+          >
+            {SAMPLE_SIZES.map((size) => (
+              <option key={size} value={size}>Up to {size.toLocaleString()} comments</option>
+            ))}
+          </select>
+          <p className="text-[10px] sm:text-xs text-gray-400">
+            Larger samples stream in page by page; themes are named once every comment is in.
+          </p>
+        </section>
+
+        {/* Spam filter */}
+        <section className="space-y-2 mb-6">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <ShieldOff className="w-3.5 h-3.5" />
+            Spam filter
+          </h4>
+          <div className="space-y-1.5">
+            {SPAM_RULES.map((rule) => (
+              <label
+                key={rule.id}
+                className="flex items-center gap-3 p-2.5 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer transition-colors"
+              >
+                <input
+                  type="checkbox"
+                  className="accent-sky-500"
+                  checked={Boolean(settings.spamFilter[rule.id])}
+                  onChange={(e) => onChange({ spamFilter: { ...settings.spamFilter, [rule.id]: e.target.checked } })}
+                />
+                <span className="text-xs sm:text-sm text-gray-700">{rule.label}</span>
+              </label>
+            ))}
+          </div>
+          {settings.spamFilter.repeatedAuthors && (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-[10px] sm:text-xs text-gray-500">Most comments allowed per author</p>
+              <input
+                type="number"
+                min={1}
+                value={settings.spamFilter.maxCommentsPerAuthor}
+                onChange={(e) => {
+                  const max = Math.max(1, Math.round(Number(e.target.value)))
+                  if (Number.isFinite(max)) onChange({ spamFilter: { ...settings.spamFilter, maxCommentsPerAuthor: max } })
+                }}
+                className="w-20 px-2.5 py-1.5 text-xs sm:text-sm text-gray-700 bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-sky-400"
+              />
+            </div>
+          )}
+          <p className="text-[10px] sm:text-xs text-gray-400">
+            Filtered comments are left out of clusters and themes but listed in the sidebar.
+          </p>
+        </section>
+
+        {/* Language model */}
+        <section className="space-y-2 mb-6">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <MessageSquare className="w-3.5 h-3.5" />
+            Language model
+          </h4>
+          <select
+            value={settings.llm.backend}
+            onChange={(e) => onChange({ llm: { ...settings.llm, backend: e.target.value as LLMBackend } })}
+            className="w-full px-2.5 py-2 text-xs sm:text-sm text-gray-700 bg-white border border-gray-200 rounded-lg focus:outline-none focus:border-sky-400"
+          >
+            {LLM_BACKENDS.map((backend) => (
+              <option key={backend.id} value={backend.id}>{backend.label}</option>
+            ))}
+          </select>
+
+          {settings.llm.backend === 'openai-compatible' && (
+            <div>
+              <p className="text-[10px] sm:text-xs text-gray-500 mb-1">Base URL (e.g. Ollama, llama.cpp)</p>
+              <CommitInput
+                value={settings.llm.baseURL}
+                placeholder="http://localhost:11434/v1"
+                onCommit={(baseURL) => onChange({ llm: { ...settings.llm, baseURL } })}
+              />
+            </div>
+          )}
+
+          {settings.llm.backend !== 'mock' && (
+            <div className="grid grid-cols-2 gap-2">
+              {LLM_TASKS.map((task) => (
+                <div key={task.id}>
+                  <p className="text-[10px] sm:text-xs text-gray-500 mb-1">{task.label} model</p>
+                  <CommitInput
+                    value={settings.llm.models[task.id]}
+                    onCommit={(model) => onChange({ llm: { ...settings.llm, models: { ...settings.llm.models, [task.id]: model } } })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 p-2.5 rounded-lg border border-gray-200 hover:bg-gray-50 cursor-pointer transition-colors">
+            <input
+              type="checkbox"
+              className="accent-sky-500"
+              checked={settings.refineEmotions}
+              onChange={(e) => onChange({ refineEmotions: e.target.checked })}
+            />
+            <span className="text-xs sm:text-sm text-gray-700">Refine sentiment and emotion labels with the model</span>
+          </label>
+        </section>
+
+        {/* Embedding cache */}
+        <section className="space-y-2">
+          <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider flex items-center gap-2">
+            <Database className="w-3.5 h-3.5" />
+            Embedding cache
+          </h4>
+          <p className="text-xs sm:text-sm text-gray-500">
+            Comments embedded before are reused instead of re-sent to the API.
+          </p>
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-xs sm:text-sm text-gray-700 tabular-nums">
+              {cacheStats
+                ? `${cacheStats.entries.toLocaleString()} embeddings · ${formatBytes(cacheStats.bytes)} of ${formatBytes(EMBEDDING_CACHE_LIMITS.maxBytes)}`
+                : 'Measuring...'}
+            </span>
+            <button
+              onClick={handleClearCache}
+              disabled={clearing || !cacheStats || cacheStats.entries === 0}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-red-500 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-40 disabled:pointer-events-none transition-colors"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+              {clearing ? 'Clearing...' : 'Clear cache'}
+            </button>
+          </div>
+        </section>
+      </motion.div>
+    </motion.div>
+  )
+}
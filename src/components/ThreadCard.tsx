@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ThumbsUp, MessageCircle, ChevronDown, Copy } from 'lucide-react'
+import { Comment, CommentThread } from '@/utils/youtube'
+import { Highlight, MoreLikeThisButton } from '@/components/CommentSearch'
+
+interface ThreadCardProps {
+  thread: CommentThread
+  // Other copies of this comment (copypasta), collapsed under it
+  copies?: Comment[]
+  // Search terms to mark in the text
+  highlight?: string[]
+  // Find comments close in meaning to the top-level one
+  onMoreLikeThis?: () => void
+}
+
+function CommentBody({ comment, compact = false, highlight }: { comment: Comment; compact?: boolean; highlight?: string[] }) {
+  const avatarSize = compact ? 'w-5 h-5 sm:w-6 sm:h-6' : 'w-6 h-6 sm:w-8 sm:h-8'
+
+  return (
+    <div className="flex items-start gap-2 sm:gap-3">
+      {comment.authorProfileImageUrl ? (
+        <img
+          src={comment.authorProfileImageUrl}
+          alt=""
+          className={`${avatarSize} rounded-full flex-shrink-0`}
+        />
+      ) : (
+        <div className={`${avatarSize} rounded-full bg-pink-100 flex items-center justify-center text-[10px] sm:text-xs flex-shrink-0 text-pink-500`}>
+          {comment.authorName.charAt(0)}
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-400">
+          <span className="font-medium text-gray-500 truncate">@{comment.authorName}</span>
+        </div>
+        <p className="text-xs sm:text-sm text-gray-700 mt-1 leading-relaxed">
+          <Highlight text={comment.text} terms={highlight} />
+        </p>
+        {comment.likeCount > 0 && (
+          <div className="flex items-center gap-1 mt-1.5 sm:mt-2 text-[10px] sm:text-xs text-gray-400">
+            <ThumbsUp className="w-3 h-3" />
+            {comment.likeCount}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * A top-level comment that expands to show its reply conversation
+ */
+export function ThreadCard({ thread, copies = [], highlight, onMoreLikeThis }: ThreadCardProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [showCopies, setShowCopies] = useState(false)
+  const { comment, replies } = thread
+  const hiddenReplies = comment.replyCount - replies.length
+
+  return (
+    <div className="p-3 sm:p-4 bg-white rounded-lg lg:rounded-xl border border-gray-200 shadow-sm">
+      <CommentBody comment={comment} highlight={highlight} />
+
+      {onMoreLikeThis && (
+        <div className="mt-1.5 ml-8 sm:ml-11">
+          <MoreLikeThisButton onClick={onMoreLikeThis} />
+        </div>
+      )}
+
+      {copies.length > 0 && (
+        <button
+          onClick={() => setShowCopies(!showCopies)}
+          className="flex items-center gap-1 mt-2 ml-8 sm:ml-11 text-[10px] sm:text-xs text-amber-600 hover:text-amber-700 transition-colors"
+        >
+          <Copy className="w-3 h-3" />
+          Posted {copies.length + 1} times
+          <ChevronDown className={`w-3 h-3 transition-transform ${showCopies ? 'rotate-180' : ''}`} />
+        </button>
+      )}
+
+      <AnimatePresence>
+        {showCopies && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-3 ml-8 sm:ml-11 pl-3 border-l-2 border-amber-100 space-y-3 overflow-hidden"
+          >
+            {copies.map((copy) => (
+              <CommentBody key={copy.id} comment={copy} compact highlight={highlight} />
+            ))}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {replies.length > 0 && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 mt-2 ml-8 sm:ml-11 text-[10px] sm:text-xs text-sky-500 hover:text-sky-600 transition-colors"
+        >
+          <MessageCircle className="w-3 h-3" />
+          {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          <ChevronDown className={`w-3 h-3 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+        </button>
+      )}
+
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-3 ml-8 sm:ml-11 pl-3 border-l-2 border-gray-100 space-y-3 overflow-hidden"
+          >
+            {replies.map((reply) => (
+              <CommentBody key={reply.id} comment={reply} compact highlight={highlight} />
+            ))}
+            {hiddenReplies > 0 && (
+              <p className="text-[10px] sm:text-xs text-gray-400">
+                {hiddenReplies} more {hiddenReplies === 1 ? 'reply' : 'replies'} not loaded
+              </p>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
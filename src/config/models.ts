@@ -0,0 +1,7 @@
+// Shared by the app and the API proxy, so no Vite-only globals here
+
+// Chat model every LLM task uses unless VITE_LLM_MODEL or the settings say otherwise
+export const DEFAULT_LLM_MODEL = 'gpt-4o-mini'
+
+// Model behind the OpenAI embedding provider
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
@@ -0,0 +1,128 @@
+import { DEFAULT_LLM_MODEL } from './models'
+
+export type EmbeddingProviderId = 'openai' | 'local'
+
+// hierarchical nests clusters inside themes; k-means puts every comment in a theme;
+// density leaves outliers as noise
+export type ClusteringMethod = 'hierarchical' | 'kmeans' | 'density'
+
+export type LLMBackend = 'openai' | 'openai-compatible' | 'mock'
+
+export type LLMTask = 'naming' | 'summary' | 'claims' | 'stories' | 'spam' | 'emotions' | 'answer'
+
+export interface LLMSettings {
+  backend: LLMBackend
+  // Only used by the openai-compatible backend (Ollama, llama.cpp server, ...)
+  baseURL: string
+  models: Record<LLMTask, string>
+}
+
+export interface SpamFilterSettings {
+  urls: boolean
+  channelPlugs: boolean
+  emojiFloods: boolean
+  repeatedAuthors: boolean
+  // Top-level comments kept per author; the rest are dropped
+  maxCommentsPerAuthor: number
+  // Also ask the language model about comments the rules let through
+  llmClassifier: boolean
+}
+
+export interface AppSettings {
+  embeddingProvider: EmbeddingProviderId
+  clustering: ClusteringMethod
+  // Top-level comments fetched per analysis
+  sampleSize: number
+  // Weight comments by their likes (log-scaled) instead of one comment, one voice
+  likeWeighting: boolean
+  spamFilter: SpamFilterSettings
+  // Have the language model relabel sentiment and emotions after the embedding-based pass
+  refineEmotions: boolean
+  llm: LLMSettings
+}
+
+const STORAGE_KEY = 'voxtube-settings'
+
+// The API proxy holds the OpenAI key server-side, so it counts as having one.
+// import.meta.env only exists under Vite; in Node nothing is configured.
+const HAS_OPENAI_KEY = Boolean(import.meta.env?.VITE_OPENAI_API_KEY || import.meta.env?.VITE_API_PROXY_URL)
+
+const DEFAULT_MODEL = import.meta.env?.VITE_LLM_MODEL || DEFAULT_LLM_MODEL
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  // Without a key, embed on-device instead of silently producing empty vectors
+  embeddingProvider: HAS_OPENAI_KEY ? 'openai' : 'local',
+  clustering: 'hierarchical',
+  sampleSize: 200,
+  likeWeighting: false,
+  spamFilter: {
+    urls: true,
+    channelPlugs: true,
+    emojiFloods: true,
+    repeatedAuthors: true,
+    maxCommentsPerAuthor: 3,
+    llmClassifier: false,
+  },
+  refineEmotions: false,
+  llm: {
+    backend: (import.meta.env?.VITE_LLM_BACKEND as LLMBackend | undefined) || (HAS_OPENAI_KEY ? 'openai' : 'mock'),
+    baseURL: import.meta.env?.VITE_LLM_BASE_URL || 'http://localhost:11434/v1',
+    models: {
+      naming: DEFAULT_MODEL,
+      summary: DEFAULT_MODEL,
+      claims: DEFAULT_MODEL,
+      stories: DEFAULT_MODEL,
+      spam: DEFAULT_MODEL,
+      emotions: DEFAULT_MODEL,
+      answer: DEFAULT_MODEL,
+    },
+  },
+}
+
+/**
+ * Fill in defaults for anything missing from stored settings (including nested LLM config)
+ */
+function withDefaults(stored: Partial<AppSettings>): AppSettings {
+  return {
+    ...DEFAULT_SETTINGS,
+    ...stored,
+    spamFilter: { ...DEFAULT_SETTINGS.spamFilter, ...stored.spamFilter },
+    llm: {
+      ...DEFAULT_SETTINGS.llm,
+      ...stored.llm,
+      models: { ...DEFAULT_SETTINGS.llm.models, ...stored.llm?.models },
+    },
+  }
+}
+
+// Latest saved settings, so changes hold for the session even without storage
+let current: AppSettings | null = null
+
+/**
+ * Read user settings from localStorage, filling in defaults
+ */
+export function loadSettings(): AppSettings {
+  if (current) return current
+
+  try {
+    const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null
+    current = withDefaults(stored ? JSON.parse(stored) : {})
+  } catch {
+    current = withDefaults({})
+  }
+  return current!
+}
+
+/**
+ * Merge and persist a settings change, returning the new settings
+ */
+export function saveSettings(patch: Partial<AppSettings>): AppSettings {
+  const next = { ...loadSettings(), ...patch }
+  current = next
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+  } catch {
+    // Storage unavailable - settings last for this session only
+  }
+  return next
+}
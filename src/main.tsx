@@ -13,6 +13,7 @@ createRoot(document.getElementById('root')!).render(
         <Route path="/" element={<App />}>
           <Route index element={<Home />} />
           <Route path="visualize/:videoId" element={<Visualize />} />
+          <Route path="upload/:uploadId" element={<Visualize />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -1,12 +1,15 @@
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Search, Shuffle, ArrowRight, HelpCircle, Sparkles } from 'lucide-react'
+import { Search, Shuffle, ArrowRight, HelpCircle, Sparkles, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { VoxLogo } from '@/components/VoxLogo'
 import { SearchDropdown } from '@/components/SearchDropdown'
 import { searchVideos, VideoDetails } from '@/utils/youtube'
 import { getRandomSong } from '@/config/songs'
+import { readCommentFile } from '@/utils/commentFile'
+import { saveUpload } from '@/utils/sources'
+import { API_PROXY_URL } from '@/utils/proxy'
 
 const API_KEY = import.meta.env.VITE_YOUTUBE_API_KEY || ''
 
@@ -43,6 +46,8 @@ export default function Home() {
   const [loading, setLoading] = useState(false)
   const [showDropdown, setShowDropdown] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploadError, setUploadError] = useState('')
 
   // Rotating state
   const [taglineIndex, setTaglineIndex] = useState(0)
@@ -102,7 +107,7 @@ export default function Home() {
       return
     }
 
-    if (!API_KEY) return
+    if (!API_KEY && !API_PROXY_URL) return
 
     const timeoutId = setTimeout(() => {
       setLoading(true)
@@ -140,6 +145,20 @@ export default function Home() {
     navigate(`/visualize/${song.id}`)
   }, [navigate])
 
+  const handleUpload = async (file: File | undefined) => {
+    if (!file) return
+    setUploadError('')
+    try {
+      const comments = await readCommentFile(file)
+      const uploadId = saveUpload(file.name.replace(/\.(json|csv)$/i, ''), comments)
+      navigate(`/upload/${uploadId}`)
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Could not read this file')
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
   const handleSearch = () => {
     if (!query.trim()) {
       setEmptySearchMessage('Even silence has something to say. Try a song!')
@@ -325,6 +344,42 @@ export default function Home() {
           </div>
         </motion.div>
 
+        {/* Upload comments */}
+        <motion.div
+          className="mt-4 text-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.55 }}
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => handleUpload(e.target.files?.[0])}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-2 mx-auto text-[13px] sm:text-sm text-gray-500 hover:text-sky-500 transition-colors font-medium"
+          >
+            <Upload className="h-4 w-4" />
+            Upload comments
+            <span className="text-gray-400 font-normal">(JSON or CSV)</span>
+          </button>
+          <AnimatePresence>
+            {uploadError && (
+              <motion.p
+                initial={{ opacity: 0, y: -5 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+                className="mt-2 text-sm text-amber-400/80"
+              >
+                {uploadError}
+              </motion.p>
+            )}
+          </AnimatePresence>
+        </motion.div>
+
         {/* Example CTA */}
         <motion.div
           className="mt-10 sm:mt-12 md:mt-16 w-full max-w-[calc(100%-1rem)] sm:max-w-none sm:w-auto"
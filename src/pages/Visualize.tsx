@@ -1,42 +1,68 @@
 import { useParams, Link, useNavigate } from 'react-router-dom'
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Search, Play, X, ArrowLeft, Sparkles, BookOpen, ThumbsUp, HelpCircle, ChevronRight } from 'lucide-react'
-import { fetchVideoById, fetchComments, VideoDetails, searchVideos } from '@/utils/youtube'
-import { embedComments, CommentWithEmbedding } from '@/utils/embeddings'
-import { getMultiLevelClusters, ClusterResult } from '@/utils/clustering'
-import { generateClusterNames, detectStoryComments, generateProseSummary, ClusterName, StoryComment } from '@/utils/llm'
+import { Search, Play, X, ArrowLeft, Sparkles, BookOpen, HelpCircle, ChevronRight, FileText, Settings, AlertTriangle } from 'lucide-react'
+import { Comment, CommentThread, VideoDetails, searchVideos, formatCount, flattenThreads } from '@/utils/youtube'
+import { createYouTubeSource, createFileSource, loadUpload } from '@/utils/sources'
+import { CommentWithEmbedding, ReplyMode } from '@/utils/embeddings'
+import { getEmbeddingProvider } from '@/utils/embeddingProviders'
+import { getLLMProvider } from '@/utils/llmProvider'
+import { AppSettings, loadSettings, saveSettings } from '@/config/settings'
+import { runAnalysis, AnalysisSnapshot, AnalysisProgress, AnalysisStage, AnalysisError } from '@/utils/pipeline'
 import { VoxLogo } from '@/components/VoxLogo'
 import { Input } from '@/components/ui/input'
 import { SearchDropdown } from '@/components/SearchDropdown'
 import { LoadingScreen } from '@/components/LoadingScreen'
+import { AnalysisProgressBar } from '@/components/AnalysisProgressBar'
 import { MiniPlayer } from '@/components/MiniPlayer'
+import { ThreadCard } from '@/components/ThreadCard'
+import { SettingsModal } from '@/components/SettingsModal'
+import { LLMFailureNotice } from '@/components/LLMFailureNotice'
+import { ClaimsView } from '@/components/ClaimsView'
+import { GroundedSummary } from '@/components/GroundedSummary'
+import { ScatteredVoices } from '@/components/ScatteredVoices'
+import { KeywordChips } from '@/components/KeywordChips'
+import { MinorityVoices } from '@/components/MinorityVoices'
+import { SaidVsUpvoted } from '@/components/SaidVsUpvoted'
+import { FilteredOutPanel } from '@/components/FilteredOutPanel'
+import { EmotionMix, EmotionProfile } from '@/components/EmotionMix'
+import { AskPanel } from '@/components/AskPanel'
+import { CommentSearch, SearchResults, Highlight, MoreLikeThisButton } from '@/components/CommentSearch'
+import { rankByCentrality } from '@/utils/clustering'
+import { DuplicateGroup } from '@/utils/duplicates'
+import { moreLikeThis } from '@/utils/search'
 
 const API_KEY = import.meta.env.VITE_YOUTUBE_API_KEY || ''
 
-type LoadingStage =
-  | 'fetching-video'
-  | 'fetching-comments'
-  | 'embedding'
-  | 'clustering'
-  | 'naming'
-  | 'claims'
-  | 'stories'
-  | 'done'
-
-const LOADING_MESSAGES: Record<LoadingStage, string> = {
+const LOADING_MESSAGES: Record<AnalysisStage, string> = {
   'fetching-video': 'Loading video info...',
   'fetching-comments': 'Gathering the crowd\'s wisdom...',
   'embedding': 'Decoding the comment section...',
   'clustering': 'Finding patterns in the noise...',
+  'emotions': 'Reading the mood of each comment...',
   'naming': 'Labeling the themes...',
   'claims': 'Synthesizing voices...',
+  'grounding': 'Checking the summary against the comments...',
   'stories': 'Discovering personal moments...',
   'done': '',
 }
 
+// Stages during which clusters may still change
+const PROVISIONAL_STAGES: AnalysisStage[] = ['fetching-video', 'fetching-comments', 'embedding', 'clustering']
+
+// RAW threads rendered per "Show more"
+const RAW_PAGE_SIZE = 50
+
+// Stand-ins for fields a snapshot doesn't have yet, the same array every render so memos keep their deps
+const NO_THREADS: CommentThread[] = []
+const NO_COMMENTS: CommentWithEmbedding[] = []
+const NO_DUPLICATES: DuplicateGroup[] = []
+
 type DialLevel = 0 | 1 | 2 | 3
 
+// Which of a theme's comments it shows: representative quotes, or the most dissenting members
+type ThemeOrder = 'central' | 'dissent'
+
 const DIAL_LEVELS = [
   { name: 'Raw', label: 'RAW', icon: '💬', description: 'Unfiltered voices in their own words', preview: 'See comments grouped by similarity' },
   { name: 'Clusters', label: 'CLUSTERS', icon: '🔮', description: 'Comments grouped by similarity', preview: 'See AI-labeled themes' },
@@ -45,31 +71,62 @@ const DIAL_LEVELS = [
 ]
 
 export default function Visualize() {
-  const { videoId } = useParams()
+  const { videoId, uploadId } = useParams()
   const navigate = useNavigate()
 
-  // Video and comments
-  const [video, setVideo] = useState<VideoDetails | null>(null)
-  const [comments, setComments] = useState<CommentWithEmbedding[]>([])
+  const source = useMemo(() => {
+    if (videoId) return createYouTubeSource(videoId, API_KEY)
+    const upload = uploadId ? loadUpload(uploadId) : null
+    return upload ? createFileSource(upload) : null
+  }, [videoId, uploadId])
 
-  // Clustering data
-  const [fineClusters, setFineClusters] = useState<ClusterResult | null>(null)
-  const [coarseClusters, setCoarseClusters] = useState<ClusterResult | null>(null)
-  const [clusterNames, setClusterNames] = useState<ClusterName[]>([])
-  const [storyComments, setStoryComments] = useState<StoryComment[]>([])
-  const [proseSummary, setProseSummary] = useState<string>('')
+  // Analysis output (video, comments, clusters, names, summary, stories), filled in as it streams
+  const [result, setResult] = useState<AnalysisSnapshot | null>(null)
+  const video = result?.video ?? null
+  const threads = result?.threads ?? NO_THREADS
+  const comments = result?.comments ?? NO_COMMENTS
+  const fineClusters = result?.fine ?? null
+  const coarseClusters = result?.coarse ?? null
+  const fineKeywords = result?.fineKeywords ?? []
+  const coarseKeywords = result?.coarseKeywords ?? []
+  const fineQuotes = result?.fineQuotes ?? []
+  const coarseQuotes = result?.coarseQuotes ?? []
+  const clusterNames = result?.clusterNames ?? []
+  const storyComments = result?.stories ?? []
+  const proseSummary = result?.proseSummary ?? ''
+  const groundedSummary = result?.groundedSummary ?? []
+  const claims = result?.claims ?? []
+  const minorities = result?.minorities ?? []
+  const outliers = result?.outliers ?? []
+  const duplicates = result?.duplicates ?? NO_DUPLICATES
+  const llmFailures = result?.llmFailures ?? []
+  const unembedded = result?.unembedded ?? 0
+  const skippedReplies = result?.skippedReplies ?? 0
+  const themeName = (themeId: number) =>
+    clusterNames.find((n) => n.clusterId === themeId)?.name || `Theme ${themeId + 1}`
 
   // UI state
   const [dialLevel, setDialLevel] = useState<DialLevel>(0)
-  const [loadingStage, setLoadingStage] = useState<LoadingStage>('fetching-video')
+  const [progress, setProgress] = useState<AnalysisProgress>({ stage: 'fetching-video', done: 0, total: 1 })
   const [errorType, setErrorType] = useState<'noComments' | 'videoNotFound' | 'generic' | null>(null)
   const [showVideoModal, setShowVideoModal] = useState(false)
   const [showMiniPlayer, setShowMiniPlayer] = useState(false)
   const [showHelpModal, setShowHelpModal] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [expandedTheme, setExpandedTheme] = useState<number | null>(null)
+  const [rawVisible, setRawVisible] = useState(RAW_PAGE_SIZE)
+  const [themeOrder, setThemeOrder] = useState<ThemeOrder>('central')
+  const [settings, setSettings] = useState<AppSettings>(loadSettings)
   const [showHint, setShowHint] = useState(() => {
     return !localStorage.getItem('voxtube-dial-hint-dismissed')
   })
   const [hoveredStat, setHoveredStat] = useState<string | null>(null)
+  const [replyMode, setReplyMode] = useState<ReplyMode>(() => {
+    return localStorage.getItem('voxtube-reply-mode') === 'separate' ? 'separate' : 'fold'
+  })
+  const [countDuplicates, setCountDuplicates] = useState(() => {
+    return localStorage.getItem('voxtube-count-duplicates') === 'true'
+  })
 
   // Search state
   const [query, setQuery] = useState('')
@@ -78,7 +135,88 @@ export default function Visualize() {
   const [showDropdown, setShowDropdown] = useState(false)
   const inputRef = useRef<HTMLInputElement>(null)
 
-  const isLoading = loadingStage !== 'done'
+  // Search within this analysis' comments
+  const [commentSearch, setCommentSearch] = useState<SearchResults | null>(null)
+
+  // Each theme's comment indices, most central first
+  const themeRankings = useMemo(() => {
+    if (!coarseClusters) return []
+    const embeddings = comments.map((c) => c.embedding)
+    return coarseClusters.clusters.map((cluster) => rankByCentrality(cluster, embeddings).map((r) => r.commentIndex))
+  }, [coarseClusters, comments])
+
+  // RAW threads with copypasta collapsed: repeats hidden, their canonical copy listing them
+  const { rawThreads, copiesOf } = useMemo(() => {
+    const byId = new Map<string, Comment>(threads.map((t) => [t.comment.id, t.comment]))
+    const hidden = new Set<string>()
+    const copiesOf = new Map<string, Comment[]>()
+    for (const group of duplicates) {
+      // Only collapse into a canonical copy that is itself a thread shown here
+      if (!byId.has(group.canonicalId)) continue
+      const others = group.memberIds.filter((id) => id !== group.canonicalId)
+      others.forEach((id) => hidden.add(id))
+      copiesOf.set(group.canonicalId, others.map((id) => byId.get(id)).filter((c) => c !== undefined))
+    }
+    return { rawThreads: threads.filter((t) => !hidden.has(t.comment.id)), copiesOf }
+  }, [threads, duplicates])
+
+  const allComments = useMemo(() => flattenThreads(threads), [threads])
+  const commentById = useMemo(() => new Map(comments.map((c) => [c.id, c])), [comments])
+
+  // Position of each search match, best first
+  const searchRank = useMemo(
+    () => new Map([...(commentSearch?.ids ?? [])].map((id, i) => [id, i])),
+    [commentSearch]
+  )
+
+  // RAW threads to list: every one, or those with a search match, best match first
+  const shownThreads = useMemo(() => {
+    if (!commentSearch) return rawThreads
+    const bestRank = (ids: string[]) => Math.min(...ids.map((id) => searchRank.get(id) ?? Infinity))
+    return rawThreads
+      .map((t) => ({ t, best: bestRank([t.comment.id, ...t.replies.map((r) => r.id), ...(copiesOf.get(t.comment.id) ?? []).map((c) => c.id)]) }))
+      .filter(({ best }) => best !== Infinity)
+      .sort((a, b) => a.best - b.best)
+      .map(({ t }) => t)
+  }, [rawThreads, copiesOf, commentSearch, searchRank])
+
+  // Best match rank per analyzed comment; in 'fold' mode a reply's match counts for the parent it was folded into
+  const voiceRank = useMemo(() => {
+    const parentOf = new Map(allComments.filter((c) => c.parentId).map((c) => [c.id, c.parentId!]))
+    const rank = new Map<string, number>()
+    for (const [id, i] of searchRank) {
+      const voiceId = commentById.has(id) ? id : parentOf.get(id)
+      if (voiceId && !rank.has(voiceId)) rank.set(voiceId, i)
+    }
+    return rank
+  }, [searchRank, allComments, commentById])
+
+  // A cluster's members that match the search, best match first
+  const searchMatchesIn = (indices: number[]) => {
+    if (!commentSearch) return []
+    return indices
+      .filter((i) => voiceRank.has(comments[i]?.id))
+      .sort((a, b) => voiceRank.get(comments[a].id)! - voiceRank.get(comments[b].id)!)
+  }
+
+  // Clusters with search matches first; the rest keep their order
+  const bySearchMatches = <T extends { commentIndices: number[] }>(clusters: T[]) =>
+    commentSearch
+      ? [...clusters].sort((a, b) => searchMatchesIn(b.commentIndices).length - searchMatchesIn(a.commentIndices).length)
+      : clusters
+
+  const handleMoreLikeThis = (commentId: string) => {
+    const comment = commentById.get(commentId)
+    if (!comment) return
+    const matches = moreLikeThis(comment, comments, getEmbeddingProvider(settings.embeddingProvider))
+    const excerpt = comment.text.length > 40 ? `${comment.text.slice(0, 40)}...` : comment.text
+    setCommentSearch({ label: `like "${excerpt}"`, ids: new Set(matches.map((m) => m.commentId)), terms: [] })
+  }
+
+  // Full-screen loading only until the first page of comments arrives
+  const isLoading = threads.length === 0
+  const isAnalyzing = progress.stage !== 'done'
+  const clustersProvisional = PROVISIONAL_STAGES.includes(progress.stage)
 
   // Reset page title on unmount
   useEffect(() => {
@@ -116,100 +254,57 @@ export default function Visualize() {
 
   // Main data loading
   useEffect(() => {
-    if (!videoId) return
-
-    let cancelled = false
-
-    async function loadData() {
-      setLoadingStage('fetching-video')
-      setErrorType(null)
-
-      try {
-        const videoData = await fetchVideoById(videoId!, API_KEY)
-        if (cancelled) return
-        if (!videoData) {
-          setErrorType('videoNotFound')
-          return
-        }
-        setVideo(videoData)
-        document.title = `${videoData.title} - VoxTube`
-
-        setLoadingStage('fetching-comments')
-        const maxComments = Math.min(videoData.commentCountRaw, 200)
-        const rawComments = await fetchComments(videoId!, API_KEY, maxComments)
-        if (cancelled) return
-        if (rawComments.length === 0) {
-          setErrorType('noComments')
-          return
-        }
-
-        setLoadingStage('embedding')
-        const embeddedComments = await embedComments(rawComments)
-        if (cancelled) return
-        setComments(embeddedComments)
-
-        setLoadingStage('clustering')
-        const validComments = embeddedComments.filter((c) => c.embedding.length > 0)
-        const embeddings = validComments.map((c) => c.embedding)
-
-        if (embeddings.length === 0) {
-          setErrorType('generic')
-          return
-        }
-
-        setComments(validComments)
-        const { fine, coarse } = getMultiLevelClusters(embeddings)
-        if (cancelled) return
-        setFineClusters(fine)
-        setCoarseClusters(coarse)
-
-        setLoadingStage('naming')
-        const clustersForNaming = coarse.clusters.map((c) => ({
-          id: c.id,
-          comments: c.commentIndices.map((i) => validComments[i]?.text || '').filter(Boolean),
-        }))
-        const names = await generateClusterNames(clustersForNaming)
-        if (cancelled) return
-        setClusterNames(names)
-
-        setLoadingStage('claims')
-        const clustersForSummary = coarse.clusters.map((c) => ({
-          id: c.id,
-          name: names.find((n) => n.clusterId === c.id)?.name || 'unnamed',
-          comments: c.commentIndices.map((idx) => validComments[idx]?.text || '').filter(Boolean),
-          confidence: c.confidence,
-        }))
-
-        // Generate prose summary
-        const summary = await generateProseSummary(clustersForSummary, videoData?.title)
-        if (cancelled) return
-        setProseSummary(summary)
-
-        setLoadingStage('stories')
-        const commentsForStories = validComments.map((c) => ({
-          text: c.text,
-          authorDisplayName: c.authorName,
-          authorProfileImageUrl: c.authorProfileImageUrl,
-        }))
-        const stories = await detectStoryComments(commentsForStories)
-        if (cancelled) return
-        setStoryComments(stories)
-
-        setLoadingStage('done')
-      } catch (err) {
-        if (!cancelled) {
-          console.error('Failed to load data:', err)
-          setErrorType('generic')
-        }
-      }
+    if (!source) {
+      setErrorType('videoNotFound')
+      return
     }
 
-    loadData()
+    const controller = new AbortController()
+    setResult(null)
+    setCommentSearch(null)
+    setRawVisible(RAW_PAGE_SIZE)
+    setErrorType(null)
+    setProgress({ stage: 'fetching-video', done: 0, total: 1 })
 
-    return () => {
-      cancelled = true
+    const options = {
+      maxComments: settings.sampleSize,
+      replyMode,
+      embeddingProvider: getEmbeddingProvider(settings.embeddingProvider),
+      clusteringMethod: settings.clustering,
+      weightByLikes: settings.likeWeighting,
+      countDuplicates,
+      spamFilter: settings.spamFilter,
+      refineEmotions: settings.refineEmotions,
+      llmProvider: getLLMProvider(settings.llm),
     }
-  }, [videoId])
+    const onSnapshot = (snapshot: AnalysisSnapshot) => {
+      setResult(snapshot)
+      document.title = `${snapshot.video.title} - VoxTube`
+    }
+    runAnalysis(source, options, { signal: controller.signal, onProgress: setProgress, onSnapshot })
+      .then(setResult)
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.error('Failed to load data:', err)
+        setErrorType(err instanceof AnalysisError ? err.reason : 'generic')
+      })
+
+    return () => controller.abort()
+  }, [source, replyMode, countDuplicates, settings.sampleSize, settings.embeddingProvider, settings.clustering, settings.likeWeighting, settings.spamFilter, settings.refineEmotions, settings.llm])
+
+  const handleSettingsChange = (patch: Partial<AppSettings>) => {
+    setSettings(saveSettings(patch))
+  }
+
+  const handleReplyModeChange = (mode: ReplyMode) => {
+    localStorage.setItem('voxtube-reply-mode', mode)
+    setReplyMode(mode)
+  }
+
+  const handleCountDuplicatesChange = (count: boolean) => {
+    localStorage.setItem('voxtube-count-duplicates', String(count))
+    setCountDuplicates(count)
+  }
 
   // Error state
   if (errorType) {
@@ -255,11 +350,33 @@ export default function Visualize() {
             <SearchDropdown results={searchResults} loading={searchLoading} onSelect={handleVideoClick} />
           )}
         </div>
+
+        <button
+          onClick={() => setShowSettings(true)}
+          className="flex-shrink-0 p-2 text-gray-400 hover:text-gray-700 transition-colors"
+          title="Settings"
+        >
+          <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+        </button>
+
+        {!isLoading && isAnalyzing && (
+          <AnalysisProgressBar
+            stage={LOADING_MESSAGES[progress.stage]}
+            done={progress.done}
+            total={progress.total}
+            percent={progress.stage === 'clustering'}
+          />
+        )}
       </nav>
 
       {/* Loading State */}
       {isLoading ? (
-        <LoadingScreen stage={LOADING_MESSAGES[loadingStage]} />
+        <LoadingScreen
+          stage={LOADING_MESSAGES[progress.stage]}
+          done={progress.done}
+          total={progress.total}
+          percent={progress.stage === 'clustering'}
+        />
       ) : (
         <div className="flex flex-col lg:flex-row">
           {/* LEFT PANEL - Collapsible on mobile */}
@@ -268,6 +385,11 @@ export default function Visualize() {
             {video && (
               <div className="mb-6 lg:mb-8">
                 <div className="flex gap-3 sm:gap-4 lg:block">
+                  {source?.kind === 'file' ? (
+                    <div className="w-28 sm:w-36 lg:w-full aspect-video rounded-lg lg:rounded-xl flex-shrink-0 lg:mb-4 bg-gradient-to-br from-sky-100 to-pink-100 flex items-center justify-center">
+                      <FileText className="w-6 h-6 lg:w-10 lg:h-10 text-sky-400" />
+                    </div>
+                  ) : (
                   <div
                     className="relative w-28 sm:w-36 lg:w-full aspect-video rounded-lg lg:rounded-xl overflow-hidden cursor-pointer group flex-shrink-0 lg:mb-4"
                     onClick={() => setShowMiniPlayer(true)}
@@ -282,6 +404,7 @@ export default function Visualize() {
                       Listen
                     </div>
                   </div>
+                  )}
                   <div className="flex-1 min-w-0">
                     <h1 className="text-[13px] sm:text-sm lg:text-base font-semibold leading-snug line-clamp-2 lg:line-clamp-none text-gray-900">{video.title}</h1>
                     <p className="text-[11px] sm:text-xs text-gray-600 mt-1 font-medium">{video.channelTitle}</p>
@@ -355,6 +478,17 @@ export default function Visualize() {
               </div>
             </div>
 
+            {/* How the comment section feels overall */}
+            <EmotionProfile comments={comments} />
+
+            {/* Spam filter: how many comments were left out, and why */}
+            <FilteredOutPanel filteredOut={result?.filteredOut ?? []} />
+            {unembedded > 0 && (
+              <p className="mb-6 lg:mb-8 px-1 text-[10px] sm:text-xs text-gray-400">
+                {unembedded} {unembedded === 1 ? 'comment' : 'comments'} couldn't be embedded and aren't in the analysis
+              </p>
+            )}
+
             {/* Listener Stories - Hidden on mobile in sidebar, shown on lg+ */}
             {storyComments.length > 0 && (
               <div className="hidden lg:block">
@@ -513,6 +647,36 @@ export default function Visualize() {
 
             {/* Content Area */}
             <div className="p-3 sm:p-4 lg:p-6">
+              <LLMFailureNotice failures={llmFailures} />
+              {skippedReplies > 0 && (
+                <div className="max-w-2xl mx-auto mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg lg:rounded-xl flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs sm:text-sm text-amber-800">
+                    {skippedReplies} {skippedReplies === 1 ? 'reply' : 'replies'} couldn't be loaded (YouTube refused or rate-limited the requests), so some threads are incomplete.
+                  </p>
+                </div>
+              )}
+
+              {result && threads.length > 0 && (
+                <CommentSearch
+                  key={result.sourceId}
+                  allComments={allComments}
+                  comments={comments}
+                  embeddingProvider={getEmbeddingProvider(settings.embeddingProvider)}
+                  results={commentSearch}
+                  onResults={setCommentSearch}
+                />
+              )}
+
+              {result && comments.length > 0 && (
+                <AskPanel
+                  key={result.sourceId}
+                  comments={comments}
+                  embeddingProvider={getEmbeddingProvider(settings.embeddingProvider)}
+                  llmProvider={getLLMProvider(settings.llm)}
+                />
+              )}
+
               <AnimatePresence mode="wait">
                 {/* RAW VIEW */}
                 {dialLevel === 0 && (
@@ -523,40 +687,78 @@ export default function Visualize() {
                     exit={{ opacity: 0, y: -20 }}
                     className="max-w-2xl mx-auto"
                   >
-                    <div className="flex items-center justify-between mb-4 lg:mb-6">
-                      <h2 className="text-base sm:text-lg font-medium">{comments.length} comments</h2>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4 lg:mb-6">
+                      <h2 className="text-base sm:text-lg font-medium">
+                        {commentSearch ? `${shownThreads.length} matching conversations` : `${rawThreads.length} conversations`}
+                        {!commentSearch && rawThreads.length < threads.length && (
+                          <span className="ml-2 text-[10px] sm:text-xs font-normal text-gray-400">
+                            {threads.length - rawThreads.length} repeats collapsed
+                          </span>
+                        )}
+                      </h2>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg text-[10px] sm:text-xs">
+                          {(['fold', 'separate'] as ReplyMode[]).map((mode) => (
+                            <button
+                              key={mode}
+                              onClick={() => handleReplyModeChange(mode)}
+                              className={`px-2 py-1 rounded-md transition-colors ${
+                                replyMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                              }`}
+                            >
+                              {mode === 'fold' ? 'Replies fold into thread' : 'Replies as own voices'}
+                            </button>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg text-[10px] sm:text-xs">
+                          {[false, true].map((count) => (
+                            <button
+                              key={String(count)}
+                              onClick={() => handleCountDuplicatesChange(count)}
+                              className={`px-2 py-1 rounded-md transition-colors ${
+                                countDuplicates === count ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                              }`}
+                            >
+                              {count ? 'Copies count separately' : 'Copies count once'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                     </div>
                     <div className="space-y-2 sm:space-y-3">
-                      {comments.slice(0, 50).map((comment, idx) => (
-                        <div key={idx} className="p-3 sm:p-4 bg-white rounded-lg lg:rounded-xl border border-gray-200 shadow-sm">
-                          <div className="flex items-start gap-2 sm:gap-3">
-                            {comment.authorProfileImageUrl ? (
-                              <img
-                                src={comment.authorProfileImageUrl}
-                                alt=""
-                                className="w-6 h-6 sm:w-8 sm:h-8 rounded-full flex-shrink-0"
-                              />
-                            ) : (
-                              <div className="w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-pink-100 flex items-center justify-center text-[10px] sm:text-xs flex-shrink-0 text-pink-500">
-                                {comment.authorName.charAt(0)}
-                              </div>
-                            )}
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-center gap-2 text-[10px] sm:text-xs text-gray-400">
-                                <span className="font-medium text-gray-500 truncate">@{comment.authorName}</span>
-                              </div>
-                              <p className="text-xs sm:text-sm text-gray-700 mt-1 leading-relaxed">{comment.text}</p>
-                              {comment.likeCount > 0 && (
-                                <div className="flex items-center gap-1 mt-1.5 sm:mt-2 text-[10px] sm:text-xs text-gray-400">
-                                  <ThumbsUp className="w-3 h-3" />
-                                  {comment.likeCount}
-                                </div>
-                              )}
-                            </div>
-                          </div>
-                        </div>
+                      {shownThreads.slice(0, rawVisible).map((thread) => (
+                        <ThreadCard
+                          key={thread.comment.id}
+                          thread={thread}
+                          copies={copiesOf.get(thread.comment.id)}
+                          highlight={commentSearch?.terms}
+                          onMoreLikeThis={commentById.has(thread.comment.id) ? () => handleMoreLikeThis(thread.comment.id) : undefined}
+                        />
                       ))}
                     </div>
+                    {shownThreads.length > rawVisible && (
+                      <button
+                        onClick={() => setRawVisible(rawVisible + RAW_PAGE_SIZE)}
+                        className="w-full mt-3 sm:mt-4 py-2 text-xs sm:text-sm text-sky-500 hover:text-sky-600 transition-colors"
+                      >
+                        Show more ({(shownThreads.length - rawVisible).toLocaleString()} left)
+                      </button>
+                    )}
+                  </motion.div>
+                )}
+
+                {/* Levels whose data hasn't streamed in yet */}
+                {dialLevel > 0 && (dialLevel === 3 ? !proseSummary : !fineClusters || !coarseClusters) && (
+                  <motion.div
+                    key={`pending-${dialLevel}`}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -20 }}
+                    className="max-w-2xl mx-auto py-12 text-center text-xs sm:text-sm text-gray-400"
+                  >
+                    {dialLevel === 3
+                      ? 'The summary is written once every comment is in and clustered.'
+                      : `Clusters appear once ${comments.length > 0 ? 'a few more' : 'the first'} comments are embedded.`}
                   </motion.div>
                 )}
 
@@ -569,26 +771,65 @@ export default function Visualize() {
                     exit={{ opacity: 0, y: -20 }}
                   >
                     <div className="flex items-center justify-between mb-4 lg:mb-6">
-                      <h2 className="text-base sm:text-lg font-medium">{fineClusters.clusters.length} clusters found</h2>
+                      <h2 className="text-base sm:text-lg font-medium">
+                        {fineClusters.clusters.length} clusters {clustersProvisional ? 'so far' : 'found'}
+                      </h2>
+                      {!clustersProvisional && fineClusters.selection && (
+                        <span className="text-[10px] sm:text-xs text-gray-400" title="Cluster count chosen by silhouette analysis">
+                          silhouette {fineClusters.selection.silhouette.toFixed(2)}
+                        </span>
+                      )}
                     </div>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
-                      {fineClusters.clusters.slice(0, 12).map((cluster, idx) => (
-                        <div key={idx} className="p-3 sm:p-4 lg:p-5 bg-white rounded-lg lg:rounded-xl border border-gray-200 shadow-sm">
+                      {bySearchMatches(fineClusters.clusters).slice(0, 12).map((cluster) => {
+                        const matches = searchMatchesIn(cluster.commentIndices)
+                        return (
+                        <div
+                          key={cluster.id}
+                          className={`p-3 sm:p-4 lg:p-5 bg-white rounded-lg lg:rounded-xl border shadow-sm transition-opacity ${
+                            matches.length > 0 ? 'border-yellow-300' : 'border-gray-200'
+                          } ${commentSearch && matches.length === 0 ? 'opacity-40' : ''}`}
+                        >
                           <div className="flex items-center gap-2 mb-2 sm:mb-3">
                             <div className="px-2 py-0.5 sm:py-1 bg-sky-100 rounded-full text-[10px] sm:text-xs text-sky-600">
                               {cluster.commentIndices.length} comments
                             </div>
+                            {matches.length > 0 && (
+                              <div className="px-2 py-0.5 sm:py-1 bg-yellow-100 rounded-full text-[10px] sm:text-xs text-yellow-700 flex-shrink-0">
+                                {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+                              </div>
+                            )}
+                            {cluster.parentId !== undefined && (
+                              <button
+                                onClick={() => {
+                                  setExpandedTheme(cluster.parentId!)
+                                  setDialLevel(2)
+                                }}
+                                className="px-2 py-0.5 sm:py-1 bg-pink-50 rounded-full text-[10px] sm:text-xs text-pink-500 hover:bg-pink-100 truncate transition-colors"
+                                title="Open this theme"
+                              >
+                                in {themeName(cluster.parentId)}
+                              </button>
+                            )}
                           </div>
+                          <KeywordChips keywords={fineKeywords[cluster.id]} />
                           <div className="space-y-1.5 sm:space-y-2">
-                            {cluster.commentIndices.slice(0, 3).map((i) => (
-                              <p key={i} className="text-[10px] sm:text-xs text-gray-500 line-clamp-2">
-                                "{comments[i]?.text}"
-                              </p>
+                            {(matches.length > 0 ? matches : fineQuotes[cluster.id] ?? cluster.commentIndices).slice(0, 3).map((i) => (
+                              <div key={i} className="group">
+                                <p className="text-[10px] sm:text-xs text-gray-500 line-clamp-2">
+                                  "<Highlight text={comments[i]?.text ?? ''} terms={commentSearch?.terms} />"
+                                </p>
+                                <div className="hidden group-hover:block">
+                                  <MoreLikeThisButton onClick={() => handleMoreLikeThis(comments[i].id)} />
+                                </div>
+                              </div>
                             ))}
                           </div>
                         </div>
-                      ))}
+                        )
+                      })}
                     </div>
+                    <ScatteredVoices comments={comments} noise={fineClusters.noise} />
                   </motion.div>
                 )}
 
@@ -602,37 +843,115 @@ export default function Visualize() {
                     className="max-w-2xl mx-auto"
                   >
                     <div className="flex items-center justify-between mb-4 lg:mb-6">
-                      <h2 className="text-base sm:text-lg font-medium">{clusterNames.length} themes identified</h2>
+                      <h2 className="text-base sm:text-lg font-medium">
+                        {coarseClusters.clusters.length} themes {clustersProvisional ? 'so far' : 'identified'}
+                      </h2>
+                      <div className="flex items-center gap-2 sm:gap-3">
+                        {!clustersProvisional && coarseClusters.selection && (
+                          <span className="text-[10px] sm:text-xs text-gray-400" title="Theme count chosen by silhouette analysis">
+                            silhouette {coarseClusters.selection.silhouette.toFixed(2)}
+                          </span>
+                        )}
+                        <div className="flex items-center gap-1 p-0.5 bg-gray-100 rounded-lg text-[10px] sm:text-xs">
+                          {(['central', 'dissent'] as ThemeOrder[]).map((order) => (
+                            <button
+                              key={order}
+                              onClick={() => setThemeOrder(order)}
+                              className={`px-2 py-1 rounded-md transition-colors ${
+                                themeOrder === order ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+                              }`}
+                            >
+                              {order === 'central' ? 'Most typical' : 'Most dissenting'}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
                     </div>
                     <div className="space-y-3 sm:space-y-4">
-                      {coarseClusters.clusters.map((cluster, idx) => {
-                        const name = clusterNames.find((n) => n.clusterId === cluster.id)
+                      {bySearchMatches(coarseClusters.clusters).map((cluster) => {
+                        const matches = searchMatchesIn(cluster.commentIndices)
+                        const subClusters = (cluster.childIds ?? []).map((id) => fineClusters?.clusters[id]).filter((c) => c !== undefined)
+                        const isExpanded = expandedTheme === cluster.id
+                        const ranked = themeRankings[cluster.id] ?? cluster.commentIndices
+                        const ordered = matches.length > 0
+                          ? matches
+                          : themeOrder === 'central' ? coarseQuotes[cluster.id] ?? ranked : [...ranked].reverse()
                         return (
-                          <div key={idx} className="p-4 sm:p-5 lg:p-6 bg-white/[0.02] rounded-lg lg:rounded-xl border border-white/5">
+                          <div
+                            key={cluster.id}
+                            className={`p-4 sm:p-5 lg:p-6 bg-white rounded-lg lg:rounded-xl border shadow-sm transition-opacity ${
+                              matches.length > 0 ? 'border-yellow-300' : 'border-gray-200'
+                            } ${commentSearch && matches.length === 0 ? 'opacity-40' : ''}`}
+                          >
                             <div className="flex items-start justify-between mb-3 sm:mb-4">
-                              <h3 className="text-base sm:text-lg font-medium text-white">
-                                {name?.name || `Cluster ${idx + 1}`}
+                              <h3 className="text-base sm:text-lg font-medium text-gray-900">
+                                {themeName(cluster.id)}
+                                {matches.length > 0 && (
+                                  <span className="ml-2 px-2 py-0.5 bg-yellow-100 rounded-full text-[10px] sm:text-xs font-normal text-yellow-700 align-middle">
+                                    {matches.length} {matches.length === 1 ? 'match' : 'matches'}
+                                  </span>
+                                )}
                               </h3>
-                              <span className="text-[10px] sm:text-xs text-zinc-500 flex-shrink-0 ml-2">
-                                {cluster.commentIndices.length} voices
+                              <span className="text-[10px] sm:text-xs text-gray-400 flex-shrink-0 ml-2">
+                                {cluster.commentIndices.length} voices ·{' '}
+                                {formatCount(String(cluster.commentIndices.reduce((sum, i) => sum + (comments[i]?.likeCount ?? 0), 0)), 'likes')}
                               </span>
                             </div>
+                            <KeywordChips keywords={coarseKeywords[cluster.id]} />
+                            <EmotionMix comments={comments} indices={cluster.commentIndices} />
                             <div className="space-y-1.5 sm:space-y-2">
-                              {cluster.commentIndices.slice(0, 3).map((i) => (
-                                <p key={i} className="text-xs sm:text-sm text-zinc-400 italic line-clamp-2">
-                                  "{comments[i]?.text}"
-                                </p>
+                              {ordered.slice(0, 3).map((i) => (
+                                <div key={i} className="group">
+                                  <p className="text-xs sm:text-sm text-gray-500 italic line-clamp-2">
+                                    "<Highlight text={comments[i]?.text ?? ''} terms={commentSearch?.terms} />"
+                                  </p>
+                                  <div className="hidden group-hover:block">
+                                    <MoreLikeThisButton onClick={() => handleMoreLikeThis(comments[i].id)} />
+                                  </div>
+                                </div>
                               ))}
                             </div>
+
+                            {/* Drill down into the clusters this theme is made of */}
+                            {subClusters.length > 1 && (
+                              <div className="mt-3 sm:mt-4 pt-3 border-t border-gray-100">
+                                <button
+                                  onClick={() => setExpandedTheme(isExpanded ? null : cluster.id)}
+                                  className="flex items-center gap-1 text-[10px] sm:text-xs text-sky-500 hover:text-sky-600 transition-colors"
+                                >
+                                  <ChevronRight className={`w-3 h-3 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                                  {subClusters.length} sub-clusters
+                                </button>
+                                {isExpanded && (
+                                  <div className="mt-2 space-y-2">
+                                    {subClusters.map((sub) => (
+                                      <div key={sub.id} className="pl-3 border-l-2 border-sky-100">
+                                        <p className="text-[10px] sm:text-xs text-gray-400 mb-0.5">{sub.commentIndices.length} comments</p>
+                                        <p className="text-[10px] sm:text-xs text-gray-500 line-clamp-2">"{comments[fineQuotes[sub.id]?.[0] ?? sub.commentIndices[0]]?.text}"</p>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            )}
+
+                            <MinorityVoices comments={comments} minority={minorities[cluster.id] ?? []} />
                           </div>
                         )
                       })}
                     </div>
+                    {/* Comments in no theme, then those in one but poorly matched to any cluster */}
+                    <ScatteredVoices
+                      comments={comments}
+                      noise={[...new Set([...coarseClusters.noise, ...outliers.map((o) => o.commentIndex)])]}
+                      title="Scattered voices and outliers"
+                      caption="comments in no theme or poorly matched to one"
+                    />
                   </motion.div>
                 )}
 
                 {/* REFINED VIEW */}
-                {dialLevel === 3 && (
+                {dialLevel === 3 && proseSummary && (
                   <motion.div
                     key="refined"
                     initial={{ opacity: 0, y: 20 }}
@@ -646,26 +965,56 @@ export default function Visualize() {
                         AI Summary
                       </h2>
 
+                      {/* Where the search's matches fall among the themes */}
+                      {commentSearch && coarseClusters && (
+                        <div className="mb-4 sm:mb-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-xs sm:text-sm text-gray-600">
+                          {commentSearch.ids.size === 0
+                            ? `No comments ${commentSearch.label}.`
+                            : (
+                              <>
+                                Comments {commentSearch.label} fall in:{' '}
+                                {bySearchMatches(coarseClusters.clusters)
+                                  .filter((c) => searchMatchesIn(c.commentIndices).length > 0)
+                                  .map((c, i) => (
+                                    <span key={c.id}>
+                                      {i > 0 && ' · '}
+                                      <button
+                                        onClick={() => setDialLevel(2)}
+                                        className="text-sky-600 hover:text-sky-700 transition-colors"
+                                      >
+                                        {themeName(c.id)}
+                                      </button>{' '}
+                                      ({searchMatchesIn(c.commentIndices).length})
+                                    </span>
+                                  ))}
+                              </>
+                            )}
+                        </div>
+                      )}
+
                       {/* Prose Summary */}
-                      {proseSummary && (
-                        <p className="text-sm sm:text-base text-gray-600 leading-relaxed mb-6 sm:mb-8">
-                          {proseSummary}
-                        </p>
+                      {proseSummary && <GroundedSummary summary={proseSummary} sentences={groundedSummary} />}
+
+                      {/* Claims, each opening onto the clusters and comments it cites */}
+                      {coarseClusters && claims.length > 0 && (
+                        <div className="mb-6 sm:mb-8">
+                          <h3 className="text-xs sm:text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">Claims</h3>
+                          <ClaimsView
+                            comments={comments}
+                            clusterResult={coarseClusters}
+                            clusterNames={clusterNames}
+                            claims={claims}
+                          />
+                        </div>
                       )}
 
-                      {/* Theme breakdown */}
-                      <div className="space-y-2 sm:space-y-3 mb-6 sm:mb-8">
-                        <h3 className="text-xs sm:text-sm font-medium text-gray-400 uppercase tracking-wider">Themes Found</h3>
-                        {coarseClusters?.clusters.map((cluster, idx) => {
-                          const name = clusterNames.find((n) => n.clusterId === cluster.id)
-                          return (
-                            <div key={idx} className="flex items-center justify-between py-1.5 sm:py-2 border-b border-gray-100 last:border-0">
-                              <span className="text-xs sm:text-sm text-gray-700">{name?.name || `Theme ${idx + 1}`}</span>
-                              <span className="text-[10px] sm:text-sm text-gray-400">{cluster.commentIndices.length} voices</span>
-                            </div>
-                          )
-                        })}
-                      </div>
+                      {/* What is said most vs what is upvoted most */}
+                      {coarseClusters && (
+                        <div className="mb-6 sm:mb-8">
+                          <h3 className="text-xs sm:text-sm font-medium text-gray-400 uppercase tracking-wider mb-3">Voices vs endorsements</h3>
+                          <SaidVsUpvoted clusters={coarseClusters.clusters} comments={comments} themeName={themeName} />
+                        </div>
+                      )}
 
                       <div className="pt-4 sm:pt-6 border-t border-gray-100">
                         <p className="text-[10px] sm:text-xs text-gray-400">
@@ -790,6 +1139,13 @@ export default function Visualize() {
         )}
       </AnimatePresence>
 
+      {/* Settings Modal */}
+      <AnimatePresence>
+        {showSettings && (
+          <SettingsModal settings={settings} onChange={handleSettingsChange} onClose={() => setShowSettings(false)} />
+        )}
+      </AnimatePresence>
+
       {/* Mini Player */}
       <AnimatePresence>
         {showMiniPlayer && videoId && (
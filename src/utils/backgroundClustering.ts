@@ -0,0 +1,83 @@
+import { getMultiLevelClusters, ClusterResult, MultiLevelOptions } from './clustering'
+import { packVectors, Vector } from './vectors'
+import { ClusteringMethod } from '../config/settings'
+
+export interface ClusterWorkerRequest {
+  data: Float32Array
+  dim: number
+  method?: ClusteringMethod
+  seed?: number | string
+  weights?: number[]
+}
+
+export type ClusterWorkerMessage =
+  | { type: 'progress'; fraction: number }
+  | { type: 'result'; fine: ClusterResult; coarse: ClusterResult }
+  | { type: 'error'; message: string }
+
+export interface BackgroundClusterOptions extends Omit<MultiLevelOptions, 'onProgress'> {
+  signal?: AbortSignal
+  onProgress?: (fraction: number) => void
+}
+
+/**
+ * Cluster in a Web Worker so the page stays responsive. Aborting terminates the
+ * worker mid-run. Where workers don't exist (Node, tests) the same code runs on
+ * the main thread, checking the signal between progress steps.
+ */
+export function clusterInBackground(
+  embeddings: Vector[],
+  options: BackgroundClusterOptions = {}
+): Promise<{ fine: ClusterResult; coarse: ClusterResult }> {
+  const { signal, onProgress, ...clusterOptions } = options
+
+  if (typeof Worker === 'undefined') {
+    return new Promise((resolve) => {
+      signal?.throwIfAborted()
+      resolve(getMultiLevelClusters(embeddings, {
+        ...clusterOptions,
+        onProgress: (fraction) => {
+          signal?.throwIfAborted()
+          onProgress?.(fraction)
+        }
+      }))
+    })
+  }
+
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const worker = new Worker(new URL('./clustering.worker.ts', import.meta.url), { type: 'module' })
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.onmessage = (event: MessageEvent<ClusterWorkerMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        onProgress?.(message.fraction)
+      } else if (message.type === 'result') {
+        finish()
+        resolve({ fine: message.fine, coarse: message.coarse })
+      } else {
+        finish()
+        reject(new Error(message.message))
+      }
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || 'Clustering worker failed'))
+    }
+
+    const { data, dim } = packVectors(embeddings)
+    const { method, seed, weights } = clusterOptions
+    const request: ClusterWorkerRequest = { data, dim, method, seed, weights }
+    worker.postMessage(request, [data.buffer])
+  })
+}
@@ -0,0 +1,152 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { buildDendrogram, clusterEmbeddings, clusterWithBestK, createRandom, densityClusterEmbeddings, getMultiLevelClusters } from './clustering'
+import { computeDistanceMatrix } from './vectors'
+import { ClusteringMethod } from '../config/settings'
+
+/**
+ * `perBlob` noisy points around each of `count` orthogonal directions
+ */
+function blobs(count: number, perBlob: number, dim = 16, spread = 0.15, seed = 1): number[][] {
+  const random = createRandom(seed)
+  const points: number[][] = []
+  for (let b = 0; b < count; b++) {
+    for (let p = 0; p < perBlob; p++) {
+      points.push(Array.from({ length: dim }, (_, d) => (d === b ? 1 : 0) + (random() - 0.5) * spread))
+    }
+  }
+  return points
+}
+
+test('createRandom repeats its sequence for the same seed', () => {
+  const draw = (seed: number | string) => {
+    const random = createRandom(seed)
+    return Array.from({ length: 5 }, () => random())
+  }
+  assert.deepEqual(draw('abc123'), draw('abc123'))
+  assert.deepEqual(draw(42), draw(42))
+  assert.notDeepEqual(draw('abc123'), draw('abc124'))
+})
+
+for (const method of ['kmeans', 'hierarchical', 'density'] as ClusteringMethod[]) {
+  test(`${method} clustering is the same for the same seed`, () => {
+    const embeddings = blobs(4, 15, 16, 0.6)
+    const first = getMultiLevelClusters(embeddings, { method, seed: 'video-id' })
+    const second = getMultiLevelClusters(embeddings, { method, seed: 'video-id' })
+    assert.deepEqual(first, second)
+  })
+}
+
+/**
+ * Textbook average linkage: recompute every cluster pair's mean distance each step
+ */
+function naiveAverageLinkage(distances: ArrayLike<number>[]): { distance: number; size: number }[] {
+  let clusters = distances.map((_, i) => [i])
+  const merges: { distance: number; size: number }[] = []
+  while (clusters.length > 1) {
+    let best = { a: 0, b: 1, distance: Infinity }
+    for (let a = 0; a < clusters.length; a++) {
+      for (let b = a + 1; b < clusters.length; b++) {
+        let total = 0
+        for (const i of clusters[a]) for (const j of clusters[b]) total += distances[i][j]
+        const distance = total / (clusters[a].length * clusters[b].length)
+        if (distance < best.distance) best = { a, b, distance }
+      }
+    }
+    const merged = [...clusters[best.a], ...clusters[best.b]]
+    merges.push({ distance: best.distance, size: merged.length })
+    clusters = [...clusters.filter((_, i) => i !== best.a && i !== best.b), merged]
+  }
+  return merges
+}
+
+test('buildDendrogram matches a naive average-linkage run', () => {
+  const distances = computeDistanceMatrix(blobs(3, 8, 8, 0.8, 7))
+  const merges = buildDendrogram(distances)
+  const expected = naiveAverageLinkage(distances)
+
+  assert.equal(merges.length, expected.length)
+  merges.forEach((merge, i) => {
+    assert.ok(Math.abs(merge.distance - expected[i].distance) < 1e-5, `merge ${i}: ${merge.distance} vs ${expected[i].distance}`)
+    assert.equal(merge.size, expected[i].size)
+  })
+})
+
+test('buildDendrogram leaves the distance matrix untouched', () => {
+  const distances = computeDistanceMatrix(blobs(3, 6))
+  const before = distances.map((row) => Array.from(row))
+  buildDendrogram(distances)
+  assert.deepEqual(distances.map((row) => Array.from(row)), before)
+})
+
+test('hierarchical fine clusters nest inside coarse themes', () => {
+  const { fine, coarse } = getMultiLevelClusters(blobs(4, 12, 16, 0.8), { method: 'hierarchical' })
+
+  for (const cluster of fine.clusters) {
+    const themes = new Set(cluster.commentIndices.map((i) => coarse.assignments[i]))
+    assert.equal(themes.size, 1)
+    assert.deepEqual([...themes], [cluster.parentId])
+    assert.ok(coarse.clusters[cluster.parentId!].childIds!.includes(cluster.id))
+  }
+})
+
+test('clusterWithBestK recovers well-separated blobs', () => {
+  const result = clusterWithBestK(blobs(3, 20), 2, 8, { random: createRandom(1) })
+  assert.equal(result.selection?.k, 3)
+  assert.deepEqual(result.clusters.map((c) => c.commentIndices.length), [20, 20, 20])
+})
+
+test('clusterWithBestK picks k on a sample of a large section and clusters all of it', () => {
+  const result = clusterWithBestK(blobs(3, 400, 8), 2, 6, { random: createRandom(1) })
+  assert.equal(result.selection?.k, 3)
+  assert.deepEqual(result.clusters.map((c) => c.commentIndices.length), [400, 400, 400])
+})
+
+test('clusterEmbeddings gives every cluster a centroid when there are no more comments than clusters', () => {
+  const embeddings = blobs(3, 1)
+  const result = clusterEmbeddings(embeddings, 5)
+  assert.equal(result.clusters.length, 3)
+  for (const cluster of result.clusters) {
+    assert.deepEqual(cluster.centroid, embeddings[cluster.commentIndices[0]])
+  }
+})
+
+for (const method of ['kmeans', 'hierarchical', 'density'] as ClusteringMethod[]) {
+  test(`${method} clustering keeps identical comments together`, () => {
+    const embeddings = Array.from({ length: 30 }, () => [0.6, 0.8, 0])
+    const { fine, coarse } = getMultiLevelClusters(embeddings, { method })
+    assert.deepEqual(coarse.clusters.map((c) => c.commentIndices.length), [30])
+    assert.deepEqual(fine.clusters.map((c) => c.commentIndices.length), [30])
+  })
+}
+
+test('densityClusterEmbeddings finds separated blobs by itself', () => {
+  const result = densityClusterEmbeddings(blobs(3, 15), { minClusterSize: 5 })
+  assert.equal(result.clusters.length, 3)
+  assert.deepEqual(result.noise, [])
+  for (const cluster of result.clusters) {
+    // Each cluster is exactly one blob
+    const blob = Math.floor(cluster.commentIndices[0] / 15)
+    assert.ok(cluster.commentIndices.every((i) => Math.floor(i / 15) === blob))
+  }
+})
+
+test('densityClusterEmbeddings leaves isolated comments as noise', () => {
+  const embeddings = blobs(2, 15, 16)
+  // Three comments each pointing somewhere no other comment does
+  for (const d of [10, 12, 14]) embeddings.push(Array.from({ length: 16 }, (_, i) => (i === d ? 1 : 0)))
+
+  const result = densityClusterEmbeddings(embeddings, { minClusterSize: 5 })
+  assert.equal(result.clusters.length, 2)
+  assert.deepEqual([...result.noise].sort((a, b) => a - b), [30, 31, 32])
+  assert.ok(result.noise.every((i) => result.assignments[i] === -1))
+})
+
+test('densityClusterEmbeddings keeps a section too small to split as one cluster', () => {
+  for (const n of [2, 4, 9]) {
+    const result = densityClusterEmbeddings(blobs(n, 1), { minClusterSize: 5 })
+    assert.equal(result.clusters.length, 1)
+    assert.equal(result.clusters[0].commentIndices.length, n)
+    assert.deepEqual(result.noise, [])
+  }
+})
@@ -1,76 +1,273 @@
-import { computeDistanceMatrix, cosineSimilarity } from './embeddings'
+import { computeDistanceMatrix, cosineSimilarity, DistanceMatrix, Vector } from './vectors'
+import { ClusteringMethod } from '../config/settings'
 
 export interface Cluster {
   id: number
   commentIndices: number[]
   centroid?: number[]
   confidence: number
+  // Fine clusters: the coarse theme holding most of their comments
+  parentId?: number
+  // Coarse themes: the fine clusters nested inside them
+  childIds?: number[]
 }
 
 export interface ClusterResult {
   clusters: Cluster[]
+  // Cluster id per comment, or -1 for noise
   assignments: number[]
+  // Comments that belong to no cluster ("scattered voices"); always empty for k-means
+  noise: number[]
+  // How k was picked, when it was scanned rather than given
+  selection?: KSelection
+}
+
+export interface KSelection {
+  k: number
+  silhouette: number
+  // Every k tried, for inspecting how clear-cut the choice was
+  candidates: { k: number; silhouette: number }[]
 }
 
 /**
- * Simple k-means clustering on embeddings
+ * Mean of a set of vectors, optionally weighted (one weight per vector)
  */
-export function clusterEmbeddings(
-  embeddings: number[][],
-  numClusters: number = 5
+function meanVector(vectors: Vector[], weights?: number[]): number[] {
+  const dim = vectors[0].length
+  const mean = new Array(dim).fill(0)
+  let total = 0
+  vectors.forEach((v, i) => {
+    const w = weights?.[i] ?? 1
+    for (let d = 0; d < dim; d++) mean[d] += v[d] * w
+    total += w
+  })
+  for (let d = 0; d < dim; d++) mean[d] /= total
+  return mean
+}
+
+/**
+ * Turn groups of comment indices into clusters: centroid, confidence from the
+ * average pairwise distance, largest first with ids renumbered to match
+ */
+function buildClusterResult(
+  groups: number[][],
+  embeddings: Vector[],
+  distanceMatrix: DistanceMatrix,
+  noise: number[] = []
 ): ClusterResult {
-  if (embeddings.length === 0) {
-    return { clusters: [], assignments: [] }
+  const clusters: Cluster[] = groups
+    .filter(indices => indices.length > 0)
+    .map(indices => {
+      let confidence = 1.0
+      if (indices.length > 1) {
+        let total = 0, count = 0
+        for (let i = 0; i < indices.length; i++) {
+          for (let j = i + 1; j < indices.length; j++) {
+            total += distanceMatrix[indices[i]][indices[j]]
+            count++
+          }
+        }
+        confidence = Math.max(0, 1 - (count > 0 ? total / count : 0))
+      }
+      return { id: 0, commentIndices: indices, centroid: meanVector(indices.map(i => embeddings[i])), confidence }
+    })
+
+  clusters.sort((a, b) => b.commentIndices.length - a.commentIndices.length)
+
+  const assignments: number[] = new Array(embeddings.length).fill(-1)
+  clusters.forEach((c, id) => {
+    c.id = id
+    for (const i of c.commentIndices) assignments[i] = id
+  })
+
+  return { clusters, assignments, noise }
+}
+
+/**
+ * Mean silhouette over clustered points: how much closer each comment is to
+ * its own cluster than to the next-nearest one (-1..1, higher is better).
+ * Noise (-1) is ignored; singletons score 0.
+ */
+export function silhouetteScore(assignments: number[], distanceMatrix: DistanceMatrix): number {
+  const clusterCount = Math.max(-1, ...assignments) + 1
+  const sizes = new Array(clusterCount).fill(0)
+  for (const a of assignments) if (a >= 0) sizes[a]++
+  if (sizes.filter(size => size > 0).length < 2) return 0
+
+  const sums = new Float64Array(clusterCount)
+  let total = 0
+  let count = 0
+  for (let i = 0; i < assignments.length; i++) {
+    const own = assignments[i]
+    if (own < 0) continue
+    count++
+    if (sizes[own] === 1) continue // singleton
+
+    sums.fill(0)
+    const row = distanceMatrix[i]
+    for (let j = 0; j < assignments.length; j++) {
+      if (assignments[j] >= 0) sums[assignments[j]] += row[j]
+    }
+
+    const a = sums[own] / (sizes[own] - 1)
+    let b = Infinity
+    for (let c = 0; c < clusterCount; c++) {
+      if (c !== own && sizes[c] > 0) b = Math.min(b, sums[c] / sizes[c])
+    }
+    if (Number.isFinite(b) && Math.max(a, b) > 0) total += (b - a) / Math.max(a, b)
   }
 
-  const k = Math.min(numClusters, embeddings.length)
-  
-  if (embeddings.length <= k) {
-    const clusters: Cluster[] = embeddings.map((_, i) => ({
-      id: i,
-      commentIndices: [i],
-      confidence: 1.0
-    }))
-    return { clusters, assignments: embeddings.map((_, i) => i) }
+  return count > 0 ? total / count : 0
+}
+
+export type Random = () => number
+
+/**
+ * Seeded PRNG (mulberry32). String seeds are hashed, so a video id works as a seed.
+ */
+export function createRandom(seed: number | string): Random {
+  let state = typeof seed === 'number' ? seed >>> 0 : 0x811c9dc5
+  if (typeof seed === 'string') {
+    for (let i = 0; i < seed.length; i++) {
+      state ^= seed.charCodeAt(i)
+      state = Math.imul(state, 0x01000193)
+    }
   }
 
-  // Initialize centroids by picking k random points (k-means++ style spread)
-  const centroidIndices: number[] = []
-  centroidIndices.push(Math.floor(Math.random() * embeddings.length))
-  
-  while (centroidIndices.length < k) {
-    // Pick point furthest from existing centroids
-    let bestIdx = 0
-    let bestMinDist = -1
-    
-    for (let i = 0; i < embeddings.length; i++) {
-      if (centroidIndices.includes(i)) continue
-      
-      let minDist = Infinity
-      for (const cIdx of centroidIndices) {
-        const sim = cosineSimilarity(embeddings[i], embeddings[cIdx])
-        const dist = 1 - sim
-        if (dist < minDist) minDist = dist
-      }
-      
-      if (minDist > bestMinDist) {
-        bestMinDist = minDist
-        bestIdx = i
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export interface KMeansOptions {
+  // Source of randomness for seeding; defaults to a fixed seed so results repeat
+  random?: Random
+  // Independent runs; the one with the lowest inertia wins
+  restarts?: number
+  distanceMatrix?: DistanceMatrix
+  // Per-comment weights for the centroid updates (e.g. from likes)
+  weights?: number[]
+}
+
+const DEFAULT_SEED = 'voxtube'
+const DEFAULT_RESTARTS = 5
+
+// Comments k is chosen on; larger sections scan a fixed random sample and
+// cluster everything once at the chosen k
+const SELECTION_SAMPLE_SIZE = 800
+
+/**
+ * Pick k in [minK, maxK] by silhouette over k-means runs, then cluster with it
+ */
+export function clusterWithBestK(
+  embeddings: Vector[],
+  minK: number,
+  maxK: number,
+  options: KMeansOptions = {}
+): ClusterResult {
+  const distanceMatrix = options.distanceMatrix ?? computeDistanceMatrix(embeddings)
+  const n = embeddings.length
+  const upper = Math.max(minK, Math.min(maxK, n - 1))
+
+  // Scanning every k over thousands of comments is billions of operations;
+  // a sample shows the same structure
+  let sample = embeddings.map((_, i) => i)
+  if (n > SELECTION_SAMPLE_SIZE) {
+    const random = options.random ?? createRandom(DEFAULT_SEED)
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      const swap = sample[i]
+      sample[i] = sample[j]
+      sample[j] = swap
+    }
+    sample = sample.slice(0, SELECTION_SAMPLE_SIZE).sort((a, b) => a - b)
+  }
+  const sampled = sample.length < n
+  const sampleEmbeddings = sampled ? sample.map(i => embeddings[i]) : embeddings
+  const sampleMatrix = sampled ? sample.map(i => Float32Array.from(sample, j => distanceMatrix[i][j])) : distanceMatrix
+  const sampleWeights = sampled && options.weights ? sample.map(i => options.weights![i]) : options.weights
+
+  let best: ClusterResult | null = null
+  let bestScore = -Infinity
+  const candidates: KSelection['candidates'] = []
+
+  for (let k = minK; k <= upper; k++) {
+    const result = clusterEmbeddings(sampleEmbeddings, k, { ...options, distanceMatrix: sampleMatrix, weights: sampleWeights })
+    const silhouette = silhouetteScore(result.assignments, sampleMatrix)
+    candidates.push({ k, silhouette })
+    if (silhouette > bestScore) {
+      best = result
+      bestScore = silhouette
+    }
+  }
+
+  if (sampled) {
+    best = clusterEmbeddings(embeddings, best!.clusters.length, { ...options, distanceMatrix })
+  }
+  return {
+    ...best!,
+    selection: { k: best!.clusters.length, silhouette: bestScore, candidates }
+  }
+}
+
+/**
+ * k-means++ seeding: first centroid uniformly at random, each next one with
+ * probability proportional to its squared distance from the nearest chosen so far
+ */
+function seedCentroids(embeddings: Vector[], k: number, random: Random): number[] {
+  const chosen = [Math.floor(random() * embeddings.length)]
+  const nearest = embeddings.map(e => 1 - cosineSimilarity(e, embeddings[chosen[0]]))
+
+  while (chosen.length < k) {
+    const weights = nearest.map(d => Math.max(0, d) ** 2)
+    const total = weights.reduce((sum, w) => sum + w, 0)
+
+    let next = -1
+    if (total > 0) {
+      let target = random() * total
+      for (let i = 0; i < weights.length; i++) {
+        target -= weights[i]
+        if (target < 0 && weights[i] > 0) {
+          next = i
+          break
+        }
       }
     }
-    centroidIndices.push(bestIdx)
+    // All remaining points coincide with a centroid (or rounding ran past the end)
+    if (next === -1) next = nearest.findIndex((_, i) => !chosen.includes(i))
+
+    chosen.push(next)
+    embeddings.forEach((e, i) => {
+      nearest[i] = Math.min(nearest[i], 1 - cosineSimilarity(e, embeddings[next]))
+    })
   }
-  
-  let centroids = centroidIndices.map(i => [...embeddings[i]])
-  let assignments: number[] = new Array(embeddings.length).fill(0)
-  
-  // K-means iterations
+
+  return chosen
+}
+
+/**
+ * One k-means run from k-means++ seeds; inertia is the summed cosine distance to centroids
+ */
+function runKMeans(
+  embeddings: Vector[],
+  k: number,
+  random: Random,
+  weights?: number[]
+): { assignments: number[]; inertia: number } {
+  let centroids = seedCentroids(embeddings, k, random).map(i => Array.from(embeddings[i]))
+  let assignments: number[] = new Array(embeddings.length).fill(-1)
+  let similarities: number[] = []
+
   for (let iter = 0; iter < 20; iter++) {
     // Assign each point to nearest centroid
-    const newAssignments = embeddings.map(embedding => {
+    similarities = []
+    const newAssignments = embeddings.map((embedding, i) => {
       let bestCluster = 0
       let bestSimilarity = -Infinity
-      
+
       for (let c = 0; c < k; c++) {
         const sim = cosineSimilarity(embedding, centroids[c])
         if (sim > bestSimilarity) {
@@ -78,85 +275,537 @@ export function clusterEmbeddings(
           bestCluster = c
         }
       }
+      similarities[i] = bestSimilarity
       return bestCluster
     })
 
     // Check convergence
     const changed = newAssignments.some((a, i) => a !== assignments[i])
     assignments = newAssignments
-    
+
     if (!changed) break
 
     // Update centroids
-    centroids = Array(k).fill(null).map((_, clusterId) => {
-      const members = embeddings.filter((_, i) => assignments[i] === clusterId)
-      if (members.length === 0) return centroids[clusterId]
-      
-      const dim = members[0].length
-      const centroid = new Array(dim).fill(0)
-      for (const m of members) {
-        for (let d = 0; d < dim; d++) centroid[d] += m[d]
-      }
-      for (let d = 0; d < dim; d++) centroid[d] /= members.length
-      return centroid
+    centroids = centroids.map((centroid, clusterId) => {
+      const members = embeddings.map((_, i) => i).filter(i => assignments[i] === clusterId)
+      return members.length === 0
+        ? centroid
+        : meanVector(members.map(i => embeddings[i]), weights && members.map(i => weights[i]))
     })
   }
 
-  console.log('K-means clusters:', k, 'unique assignments:', new Set(assignments).size)
+  const inertia = similarities.reduce((sum, sim, i) => sum + (1 - sim) * (weights?.[i] ?? 1), 0)
+  return { assignments, inertia }
+}
+
+/**
+ * k-means clustering on embeddings, keeping the best of several seeded restarts
+ */
+export function clusterEmbeddings(
+  embeddings: Vector[],
+  numClusters: number = 5,
+  options: KMeansOptions = {}
+): ClusterResult {
+  if (embeddings.length === 0) {
+    return { clusters: [], assignments: [], noise: [] }
+  }
+
+  const k = Math.min(numClusters, embeddings.length)
+  const distanceMatrix = options.distanceMatrix ?? computeDistanceMatrix(embeddings)
+
+  if (embeddings.length <= k) {
+    return buildClusterResult(embeddings.map((_, i) => [i]), embeddings, distanceMatrix)
+  }
 
-  // Build cluster objects
-  const clusterMap = new Map<number, number[]>()
-  assignments.forEach((clusterId, dataIdx) => {
-    if (!clusterMap.has(clusterId)) clusterMap.set(clusterId, [])
-    clusterMap.get(clusterId)!.push(dataIdx)
+  const { random = createRandom(DEFAULT_SEED), restarts = DEFAULT_RESTARTS, weights } = options
+
+  let best = runKMeans(embeddings, k, random, weights)
+  for (let run = 1; run < restarts; run++) {
+    const candidate = runKMeans(embeddings, k, random, weights)
+    if (candidate.inertia < best.inertia) best = candidate
+  }
+
+  const groups: number[][] = Array.from({ length: k }, () => [])
+  best.assignments.forEach((clusterId, dataIdx) => groups[clusterId].push(dataIdx))
+
+  return buildClusterResult(groups, embeddings, distanceMatrix)
+}
+
+/**
+ * One agglomerative merge. Node ids < n are comments; merge i creates node n + i.
+ */
+export interface Merge {
+  left: number
+  right: number
+  distance: number
+  size: number
+}
+
+/**
+ * Average-linkage agglomerative clustering over a distance matrix, returning
+ * the n - 1 merges in order (the dendrogram). Cluster distances (mean pairwise
+ * cosine distance) are updated with Lance-Williams; the matrix is left as is.
+ */
+export function buildDendrogram(distanceMatrix: DistanceMatrix): Merge[] {
+  const n = distanceMatrix.length
+  // Cluster distances live in a packed lower triangle, half the size of a full copy
+  const scratch = new Float32Array((n * (n - 1)) / 2)
+  const at = (i: number, j: number) => (i > j ? (i * (i - 1)) / 2 + j : (j * (j - 1)) / 2 + i)
+  for (let i = 1; i < n; i++) {
+    for (let j = 0; j < i; j++) scratch[at(i, j)] = distanceMatrix[i][j]
+  }
+  const dist = (i: number, j: number) => scratch[at(i, j)]
+  const size = new Array(n).fill(1)
+  const nodeId = Array.from({ length: n }, (_, i) => i)
+  const active = new Array(n).fill(true)
+
+  // Cached nearest active neighbour per row
+  const nearest = new Array(n).fill(-1)
+  const updateNearest = (i: number) => {
+    nearest[i] = -1
+    for (let j = 0; j < n; j++) {
+      if (j !== i && active[j] && (nearest[i] === -1 || dist(i, j) < dist(i, nearest[i]))) nearest[i] = j
+    }
+  }
+  for (let i = 0; i < n; i++) updateNearest(i)
+
+  const merges: Merge[] = []
+  for (let step = 0; step < n - 1; step++) {
+    let a = -1
+    for (let i = 0; i < n; i++) {
+      if (active[i] && nearest[i] !== -1 && (a === -1 || dist(i, nearest[i]) < dist(a, nearest[a]))) a = i
+    }
+    const b = nearest[a]
+    const dab = dist(a, b)
+
+    merges.push({ left: nodeId[a], right: nodeId[b], distance: dab, size: size[a] + size[b] })
+
+    // Merge b into a
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === b) continue
+      scratch[at(k, a)] = (size[a] * dist(k, a) + size[b] * dist(k, b)) / (size[a] + size[b])
+    }
+    active[b] = false
+    size[a] += size[b]
+    nodeId[a] = n + step
+
+    for (let k = 0; k < n; k++) {
+      if (!active[k]) continue
+      if (k === a || nearest[k] === a || nearest[k] === b) updateNearest(k)
+      else if (dist(k, a) < dist(k, nearest[k])) nearest[k] = a
+    }
+  }
+
+  return merges
+}
+
+/**
+ * Cut a dendrogram into k groups by replaying all but the last k - 1 merges
+ */
+export function cutDendrogram(merges: Merge[], k: number): number[][] {
+  const n = merges.length + 1
+  const parent = Array.from({ length: 2 * n - 1 }, (_, i) => i)
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]]
+      x = parent[x]
+    }
+    return x
+  }
+
+  merges.slice(0, Math.max(0, n - k)).forEach((merge, i) => {
+    parent[find(merge.left)] = n + i
+    parent[find(merge.right)] = n + i
   })
 
-  const distanceMatrix = computeDistanceMatrix(embeddings)
-  
-  const clusters: Cluster[] = Array.from(clusterMap.entries()).map(([id, indices]) => {
-    let confidence = 1.0
-    if (indices.length > 1) {
-      let total = 0, count = 0
-      for (let i = 0; i < indices.length; i++) {
-        for (let j = i + 1; j < indices.length; j++) {
-          total += distanceMatrix[indices[i]][indices[j]]
-          count++
+  const groups = new Map<number, number[]>()
+  for (let i = 0; i < n; i++) {
+    const root = find(i)
+    if (!groups.has(root)) groups.set(root, [])
+    groups.get(root)!.push(i)
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Cut the dendrogram at every k in [minK, maxK] and keep the cut with the best silhouette
+ */
+function cutWithBestK(
+  merges: Merge[],
+  embeddings: Vector[],
+  distanceMatrix: DistanceMatrix,
+  minK: number,
+  maxK: number
+): ClusterResult {
+  const n = embeddings.length
+  const upper = Math.max(minK, Math.min(maxK, n - 1))
+  let bestGroups: number[][] = []
+  let bestScore = -Infinity
+  const candidates: KSelection['candidates'] = []
+
+  for (let k = Math.min(minK, n); k <= Math.min(upper, n); k++) {
+    const groups = cutDendrogram(merges, k)
+    const assignments = new Array(n).fill(-1)
+    groups.forEach((group, id) => group.forEach(i => { assignments[i] = id }))
+    const silhouette = silhouetteScore(assignments, distanceMatrix)
+    candidates.push({ k, silhouette })
+    if (silhouette > bestScore) {
+      bestGroups = groups
+      bestScore = silhouette
+    }
+  }
+
+  return {
+    ...buildClusterResult(bestGroups, embeddings, distanceMatrix),
+    selection: { k: bestGroups.length, silhouette: bestScore, candidates }
+  }
+}
+
+/**
+ * Point each fine cluster at the coarse theme holding most of its comments,
+ * and list each theme's fine clusters. Exact nesting for hierarchical cuts;
+ * a best-overlap mapping for independently clustered levels.
+ */
+export function linkLevels(fine: ClusterResult, coarse: ClusterResult): void {
+  coarse.clusters.forEach(theme => { theme.childIds = [] })
+
+  for (const cluster of fine.clusters) {
+    const votes = new Map<number, number>()
+    for (const i of cluster.commentIndices) {
+      const themeId = coarse.assignments[i]
+      if (themeId >= 0) votes.set(themeId, (votes.get(themeId) || 0) + 1)
+    }
+    const [parentId] = [...votes.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0] ?? []
+    if (parentId === undefined) continue
+
+    cluster.parentId = parentId
+    coarse.clusters[parentId].childIds!.push(cluster.id)
+  }
+}
+
+export interface DensityOptions {
+  // Smallest group that counts as a cluster; anything smaller is noise
+  minClusterSize?: number
+  // Neighbours a point needs nearby to be "core"; higher = more conservative
+  minSamples?: number
+  distanceMatrix?: DistanceMatrix
+}
+
+/**
+ * HDBSCAN-style density clustering. Finds the number of clusters itself and
+ * leaves comments in sparse regions unassigned as noise.
+ *
+ * Builds a minimum spanning tree over mutual reachability distances, condenses
+ * the single-linkage hierarchy with minClusterSize, and keeps the most stable
+ * clusters (excess of mass).
+ *
+ * Sections with fewer than 2 × minClusterSize comments can't split, so they
+ * come back as one cluster with no noise, even below minClusterSize: a handful
+ * of comments is still one reaction rather than all scattered voices.
+ */
+export function densityClusterEmbeddings(
+  embeddings: Vector[],
+  options: DensityOptions = {}
+): ClusterResult {
+  const n = embeddings.length
+  const minClusterSize = Math.max(2, options.minClusterSize ?? 5)
+  const minSamples = Math.max(1, Math.min(options.minSamples ?? minClusterSize, n - 1))
+  if (n === 0) return { clusters: [], assignments: [], noise: [] }
+
+  const distanceMatrix = options.distanceMatrix ?? computeDistanceMatrix(embeddings)
+
+  if (n < minClusterSize * 2) {
+    // Too few comments to split: one group, no noise (see above)
+    return buildClusterResult([embeddings.map((_, i) => i)], embeddings, distanceMatrix)
+  }
+
+  // Core distance: distance to the minSamples-th nearest neighbour
+  const coreDistance = distanceMatrix.map((row, i) => {
+    const sorted = row.filter((_, j) => j !== i).sort((a, b) => a - b)
+    return sorted[minSamples - 1]
+  })
+  const reach = (i: number, j: number) => Math.max(coreDistance[i], coreDistance[j], distanceMatrix[i][j])
+
+  // Prim's minimum spanning tree over mutual reachability
+  const inTree = new Array(n).fill(false)
+  const bestDistance = new Array(n).fill(Infinity)
+  const bestFrom = new Array(n).fill(-1)
+  const edges: { a: number; b: number; distance: number }[] = []
+  let current = 0
+  inTree[0] = true
+  for (let step = 1; step < n; step++) {
+    let next = -1
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue
+      const d = reach(current, j)
+      if (d < bestDistance[j]) {
+        bestDistance[j] = d
+        bestFrom[j] = current
+      }
+      if (next === -1 || bestDistance[j] < bestDistance[next]) next = j
+    }
+    edges.push({ a: bestFrom[next], b: next, distance: bestDistance[next] })
+    inTree[next] = true
+    current = next
+  }
+  edges.sort((x, y) => x.distance - y.distance)
+
+  // Single-linkage hierarchy: node ids < n are comments, n + i is the i-th merge
+  const merges: { left: number; right: number; distance: number; size: number }[] = []
+  const unionParent = Array.from({ length: 2 * n - 1 }, (_, i) => i)
+  const find = (x: number): number => {
+    while (unionParent[x] !== x) {
+      unionParent[x] = unionParent[unionParent[x]]
+      x = unionParent[x]
+    }
+    return x
+  }
+  const sizeOf = (node: number) => (node < n ? 1 : merges[node - n].size)
+  for (const { a, b, distance } of edges) {
+    const left = find(a)
+    const right = find(b)
+    const node = n + merges.length
+    merges.push({ left, right, distance, size: sizeOf(left) + sizeOf(right) })
+    unionParent[left] = node
+    unionParent[right] = node
+  }
+
+  const leavesOf = (node: number): number[] => {
+    const leaves: number[] = []
+    const stack = [node]
+    while (stack.length > 0) {
+      const x = stack.pop()!
+      if (x < n) leaves.push(x)
+      else stack.push(merges[x - n].left, merges[x - n].right)
+    }
+    return leaves
+  }
+
+  // Condense: walk down from the root, splitting only when both sides are big enough.
+  // Lambda = 1 / distance measures how long a point or cluster persists.
+  const toLambda = (distance: number) => 1 / Math.max(distance, 1e-6)
+  const birth: number[] = [0]
+  const parentCluster: number[] = [-1]
+  const stability: number[] = [0]
+  const childClusters: number[][] = [[]]
+  const fellOutOf: number[] = new Array(n).fill(0)
+
+  const stack: [node: number, cluster: number][] = [[2 * n - 2, 0]]
+  while (stack.length > 0) {
+    const [node, cluster] = stack.pop()!
+    const { left, right, distance } = merges[node - n]
+    const lambda = toLambda(distance)
+    const bigLeft = sizeOf(left) >= minClusterSize
+    const bigRight = sizeOf(right) >= minClusterSize
+
+    if (bigLeft && bigRight) {
+      for (const child of [left, right]) {
+        const id = birth.length
+        birth.push(lambda)
+        parentCluster.push(cluster)
+        stability.push(0)
+        childClusters.push([])
+        childClusters[cluster].push(id)
+        stability[cluster] += (lambda - birth[cluster]) * sizeOf(child)
+        stack.push([child, id])
+      }
+      continue
+    }
+
+    for (const child of [left, right]) {
+      if (child >= n && sizeOf(child) >= minClusterSize) {
+        // The cluster carries on through its big side
+        stack.push([child, cluster])
+      } else {
+        for (const point of leavesOf(child)) {
+          fellOutOf[point] = cluster
+          stability[cluster] += lambda - birth[cluster]
         }
       }
-      confidence = Math.max(0, 1 - (count > 0 ? total / count : 0))
     }
-    return { id, commentIndices: indices, centroid: centroids[id], confidence }
+  }
+
+  // Keep a cluster when it is more stable than its descendants combined.
+  // Children always have higher ids than parents, so walk ids downwards.
+  const selected = new Array(birth.length).fill(false)
+  const best = [...stability]
+  for (let id = birth.length - 1; id > 0; id--) {
+    const childSum = childClusters[id].reduce((sum, c) => sum + best[c], 0)
+    if (childClusters[id].length === 0 || stability[id] >= childSum) {
+      selected[id] = true
+      const stackDown = [...childClusters[id]]
+      while (stackDown.length > 0) {
+        const c = stackDown.pop()!
+        selected[c] = false
+        stackDown.push(...childClusters[c])
+      }
+    } else {
+      best[id] = childSum
+    }
+  }
+
+  // A comment joins the selected cluster above the point where it fell out
+  const groupOf = new Map<number, number[]>()
+  const noise: number[] = []
+  fellOutOf.forEach((cluster, point) => {
+    let c = cluster
+    while (c > 0 && !selected[c]) c = parentCluster[c]
+    if (c > 0) {
+      if (!groupOf.has(c)) groupOf.set(c, [])
+      groupOf.get(c)!.push(point)
+    } else {
+      noise.push(point)
+    }
   })
 
-  clusters.sort((a, b) => b.commentIndices.length - a.commentIndices.length)
-  
-  const idMap = new Map<number, number>()
-  clusters.forEach((c, i) => { idMap.set(c.id, i); c.id = i })
-  
-  return { clusters, assignments: assignments.map(id => idMap.get(id) ?? id) }
+  // The hierarchy never split: the whole section is one reaction
+  if (groupOf.size === 0) {
+    return buildClusterResult([embeddings.map((_, i) => i)], embeddings, distanceMatrix)
+  }
+
+  return buildClusterResult([...groupOf.values()], embeddings, distanceMatrix, noise)
+}
+
+export interface MultiLevelOptions {
+  method?: ClusteringMethod
+  // k-means seed (hierarchical and density clustering are deterministic anyway)
+  seed?: number | string
+  // Fraction of the work done, 0..1
+  onProgress?: (fraction: number) => void
+  // Per-comment weights: centroids lean toward heavier comments, and k-means
+  // moves its centroids accordingly
+  weights?: number[]
+}
+
+/**
+ * Recompute each cluster's centroid as the weighted mean of its members
+ */
+function weightCentroids(result: ClusterResult, embeddings: Vector[], weights: number[]): void {
+  for (const cluster of result.clusters) {
+    if (cluster.commentIndices.length === 0) continue
+    cluster.centroid = meanVector(
+      cluster.commentIndices.map(i => embeddings[i]),
+      cluster.commentIndices.map(i => weights[i])
+    )
+  }
 }
 
 /**
  * Get cluster assignments at multiple granularities
  */
 export function getMultiLevelClusters(
-  embeddings: number[][]
+  embeddings: Vector[],
+  options: MultiLevelOptions = {}
 ): {
   fine: ClusterResult
   coarse: ClusterResult
 } {
+  const { method = 'hierarchical', seed = DEFAULT_SEED, onProgress, weights } = options
+  const finish = (fine: ClusterResult, coarse: ClusterResult) => {
+    if (weights) {
+      weightCentroids(fine, embeddings, weights)
+      weightCentroids(coarse, embeddings, weights)
+    }
+    linkLevels(fine, coarse)
+    return { fine, coarse }
+  }
   const n = embeddings.length
-  
-  // Fine-grained: more clusters for FRAGMENTS
-  const fineNumClusters = Math.max(3, Math.min(Math.floor(n / 5), 15))
-  
-  // Coarse: fewer clusters for CLUSTERS level
-  const coarseNumClusters = Math.max(2, Math.min(Math.floor(n / 15), 7))
 
-  return {
-    fine: clusterEmbeddings(embeddings, fineNumClusters),
-    coarse: clusterEmbeddings(embeddings, coarseNumClusters)
+  // The distance matrix is about half the work; the rest is reported per level
+  const distanceMatrix = computeDistanceMatrix(embeddings, (done, total) => onProgress?.(0.5 * done / total))
+
+  // Comments that all say exactly the same thing are one group at every level
+  if (distanceMatrix.every(row => row.every(d => d < 1e-6))) {
+    const everyone = [embeddings.map((_, i) => i)]
+    onProgress?.(1)
+    return finish(buildClusterResult(everyone, embeddings, distanceMatrix), buildClusterResult(everyone, embeddings, distanceMatrix))
+  }
+
+  if (method === 'density') {
+    // Bigger minimum cluster size for themes → fewer, broader groups
+    const fine = densityClusterEmbeddings(embeddings, { minClusterSize: Math.max(3, Math.round(n / 40)), distanceMatrix })
+    onProgress?.(0.75)
+    const coarse = densityClusterEmbeddings(embeddings, { minClusterSize: Math.max(5, Math.round(n / 15)), distanceMatrix })
+    onProgress?.(1)
+    return finish(fine, coarse)
+  }
+
+  // Coarse (themes): 2 up to 8, as the comments' spread supports
+  const coarseMax = Math.min(8, Math.floor(n / 5))
+  // Fine (clusters): always finer than the themes, up to 15
+  const fineMax = (coarseK: number) => Math.max(coarseK + 1, Math.min(15, Math.floor(n / 3)))
+
+  let fine: ClusterResult
+  let coarse: ClusterResult
+  if (method === 'hierarchical') {
+    if (n < 2) {
+      coarse = clusterEmbeddings(embeddings, 1)
+      fine = clusterEmbeddings(embeddings, 1)
+    } else {
+      // Both levels are cuts of one tree, so every cluster nests inside a theme
+      const merges = buildDendrogram(distanceMatrix)
+      onProgress?.(0.7)
+      coarse = cutWithBestK(merges, embeddings, distanceMatrix, 2, coarseMax)
+      onProgress?.(0.8)
+      fine = cutWithBestK(merges, embeddings, distanceMatrix, coarse.clusters.length + 1, fineMax(coarse.clusters.length))
+    }
+  } else {
+    const random = createRandom(seed)
+    coarse = clusterWithBestK(embeddings, 2, coarseMax, { random, distanceMatrix, weights })
+    onProgress?.(0.7)
+    fine = clusterWithBestK(embeddings, coarse.clusters.length + 1, fineMax(coarse.clusters.length), { random, distanceMatrix, weights })
   }
+
+  onProgress?.(1)
+  return finish(fine, coarse)
+}
+
+/**
+ * Provisional update while comments stream in: put each comment from
+ * `fromIndex` on into the cluster with the nearest centroid and move that
+ * centroid toward it by the comment's share of the cluster's weight
+ * (mini-batch k-means). Returns a new result; the old one
+ * is left untouched for whoever is still rendering it.
+ */
+export function assignToClusters(
+  result: ClusterResult,
+  embeddings: Vector[],
+  fromIndex: number,
+  weights?: number[]
+): ClusterResult {
+  const clusters = result.clusters.map(c => ({
+    ...c,
+    commentIndices: [...c.commentIndices],
+    centroid: c.centroid ? [...c.centroid] : undefined
+  }))
+  const assignments = [...result.assignments]
+  if (clusters.length === 0) return { ...result, clusters, assignments }
+  const totals = clusters.map(c => c.commentIndices.reduce((sum, i) => sum + (weights?.[i] ?? 1), 0))
+
+  for (let i = fromIndex; i < embeddings.length; i++) {
+    let best = 0
+    let bestSimilarity = -Infinity
+    clusters.forEach((c, id) => {
+      const sim = c.centroid ? cosineSimilarity(embeddings[i], c.centroid) : -Infinity
+      if (sim > bestSimilarity) {
+        bestSimilarity = sim
+        best = id
+      }
+    })
+
+    const cluster = clusters[best]
+    cluster.commentIndices.push(i)
+    assignments[i] = best
+    totals[best] += weights?.[i] ?? 1
+    if (cluster.centroid) {
+      const rate = (weights?.[i] ?? 1) / totals[best]
+      for (let d = 0; d < cluster.centroid.length; d++) {
+        cluster.centroid[d] += (embeddings[i][d] - cluster.centroid[d]) * rate
+      }
+    }
+  }
+
+  return { ...result, clusters, assignments }
 }
 
 /**
@@ -164,7 +813,7 @@ export function getMultiLevelClusters(
  */
 export function findDissentingComments(
   cluster: Cluster,
-  embeddings: number[][],
+  embeddings: Vector[],
   threshold: number = 0.3
 ): number[] {
   if (!cluster.centroid || cluster.commentIndices.length <= 1) return []
@@ -183,3 +832,82 @@ export function findDissentingComments(
 
   return dissenting
 }
+
+/**
+ * Members of a cluster ordered from most to least central (nearest the
+ * centroid first), with their similarity to it
+ */
+export function rankByCentrality(
+  cluster: Cluster,
+  embeddings: Vector[]
+): { commentIndex: number; similarity: number }[] {
+  const centroid = cluster.centroid
+  return cluster.commentIndices
+    .map(commentIndex => ({
+      commentIndex,
+      similarity: centroid ? cosineSimilarity(embeddings[commentIndex], centroid) : 0
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+}
+
+// Clusters smaller than this have no meaningful minority, and a comment
+// alone in one is not really matched to anything
+const MIN_GROUP_SIZE = 5
+
+// Floor on the spread used for minority/outlier cut-offs, so a cluster of
+// near-identical comments doesn't call rounding error dissent
+const MIN_SPREAD = 0.01
+
+/**
+ * The minority within each cluster: members more than one standard deviation
+ * further from the centroid than is usual for that cluster. The cut-off is
+ * relative because raw distances differ between embedding providers.
+ * Indexed by cluster id, farthest first.
+ */
+export function findMinorities(result: ClusterResult, embeddings: Vector[]): number[][] {
+  const minorities: number[][] = []
+  for (const cluster of result.clusters) {
+    const ranked = rankByCentrality(cluster, embeddings)
+    if (ranked.length < MIN_GROUP_SIZE) {
+      minorities[cluster.id] = []
+      continue
+    }
+
+    const distances = ranked.map(r => 1 - r.similarity)
+    const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length
+    const sd = Math.sqrt(distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length)
+    const dissenting = new Set(findDissentingComments(cluster, embeddings, mean + Math.max(sd, MIN_SPREAD)))
+    minorities[cluster.id] = ranked.filter(r => dissenting.has(r.commentIndex)).map(r => r.commentIndex).reverse()
+  }
+  return minorities
+}
+
+export interface Outlier {
+  commentIndex: number
+  // Similarity to the nearest cluster centroid
+  similarity: number
+}
+
+/**
+ * Comments poorly matched to any cluster: density noise plus the comments
+ * whose nearest real cluster (not a tiny one they may have formed themselves)
+ * is unusually far away, 1.5 standard deviations beyond the mean across all
+ * comments. Worst-matched first.
+ */
+export function findOutliers(result: ClusterResult, embeddings: Vector[]): Outlier[] {
+  const groups = result.clusters.filter(c => c.commentIndices.length >= MIN_GROUP_SIZE)
+  const centroids = (groups.length > 0 ? groups : result.clusters).map(c => c.centroid).filter(c => c !== undefined)
+  if (centroids.length === 0) return []
+
+  const best = embeddings.map((embedding, commentIndex) => ({
+    commentIndex,
+    similarity: Math.max(...centroids.map(c => cosineSimilarity(embedding, c)))
+  }))
+  const mean = best.reduce((sum, b) => sum + b.similarity, 0) / best.length
+  const sd = Math.sqrt(best.reduce((sum, b) => sum + (b.similarity - mean) ** 2, 0) / best.length)
+  const noise = new Set(result.noise)
+
+  return best
+    .filter(b => noise.has(b.commentIndex) || b.similarity < mean - 1.5 * Math.max(sd, MIN_SPREAD))
+    .sort((a, b) => a.similarity - b.similarity)
+}
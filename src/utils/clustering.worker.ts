@@ -0,0 +1,25 @@
+import { getMultiLevelClusters } from './clustering'
+import { unpackVectors } from './vectors'
+import type { ClusterWorkerRequest, ClusterWorkerMessage } from './backgroundClustering'
+
+/**
+ * Runs getMultiLevelClusters off the main thread. Embeddings arrive packed in
+ * one transferred Float32Array; progress and the result are posted back.
+ */
+const post = (message: ClusterWorkerMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<ClusterWorkerRequest>) => {
+  const { data, dim, method, seed, weights } = event.data
+
+  try {
+    const result = getMultiLevelClusters(unpackVectors(data, dim), {
+      method,
+      seed,
+      weights,
+      onProgress: (fraction) => post({ type: 'progress', fraction })
+    })
+    post({ type: 'result', ...result })
+  } catch (error) {
+    post({ type: 'error', message: (error as Error)?.message || String(error) })
+  }
+}
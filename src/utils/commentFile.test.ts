@@ -0,0 +1,45 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ANONYMOUS_AUTHOR, parseCommentsCSV, parseCommentsJSON } from './commentFile'
+
+test('parses quoted commas, escaped quotes and newlines inside quotes', () => {
+  const csv = 'text,likeCount\n"one, two",3\n"she said ""wow""",0\n"line one\nline two",1\n'
+
+  assert.deepEqual(parseCommentsCSV(csv).map(c => [c.text, c.likeCount]), [
+    ['one, two', 3],
+    ['she said "wow"', 0],
+    ['line one\nline two', 1]
+  ])
+})
+
+test('handles CRLF line endings and a byte order mark', () => {
+  const csv = '\uFEFFtext,authorName\r\nfirst,ann\r\n"second\r\nline",\r\n'
+
+  const comments = parseCommentsCSV(csv)
+  assert.deepEqual(comments.map(c => c.text), ['first', 'second\r\nline'])
+  assert.deepEqual(comments.map(c => c.authorName), ['ann', ANONYMOUS_AUTHOR])
+})
+
+test('skips rows without text and requires a text column', () => {
+  assert.deepEqual(parseCommentsCSV('text,id\n,a\n  ,b\nkept,c\n').map(c => c.id), ['c'])
+  assert.throws(() => parseCommentsCSV('body\nhello\n'), /"text" column/)
+})
+
+test('leaves out missing or invalid dates instead of keeping them', () => {
+  const csv = 'text,publishedAt\ndated,2024-03-01T12:00:00Z\nundated,\ngarbled,not a date\n'
+
+  assert.deepEqual(parseCommentsCSV(csv).map(c => c.publishedAt), ['2024-03-01T12:00:00.000Z', '', ''])
+  assert.deepEqual(parseCommentsJSON('[{"text": "no date"}]').map(c => c.publishedAt), [''])
+})
+
+test('parses JSON arrays and { comments } objects, with or without a byte order mark', () => {
+  const records = [{ text: 'hi', likeCount: '4', parentId: 'p1' }, { text: '' }, null]
+
+  for (const json of [JSON.stringify(records), JSON.stringify({ comments: records }), '\uFEFF' + JSON.stringify(records)]) {
+    const comments = parseCommentsJSON(json)
+    assert.equal(comments.length, 1)
+    assert.deepEqual([comments[0].text, comments[0].likeCount, comments[0].parentId], ['hi', 4, 'p1'])
+  }
+  assert.throws(() => parseCommentsJSON('{oops'), /not valid JSON/)
+  assert.throws(() => parseCommentsJSON('{"items": []}'), /"comments" array/)
+})
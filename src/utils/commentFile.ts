@@ -0,0 +1,148 @@
+import type { Comment } from './youtube'
+
+// Maximum upload size we're willing to parse in the browser
+const MAX_FILE_BYTES = 20 * 1024 * 1024
+
+// Author given to imported comments that have none
+export const ANONYMOUS_AUTHOR = 'anonymous'
+
+// Spreadsheet apps often start UTF-8 exports with a byte order mark
+const stripBOM = (text: string) => (text.charCodeAt(0) === 0xfeff ? text.slice(1) : text)
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, escaped quotes, CRLF)
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(f => f.trim() !== ''))
+}
+
+/**
+ * Normalize one imported record to a Comment. Only `text` is required.
+ */
+function toComment(record: Record<string, unknown>, index: number): Comment | null {
+  const text = typeof record.text === 'string' ? record.text.trim() : ''
+  if (!text) return null
+
+  const str = (value: unknown) => (value === undefined || value === null ? '' : String(value).trim())
+  const num = (value: unknown) => {
+    const n = Number(value)
+    return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 0
+  }
+  // A missing or unparseable date is left out rather than shown as "Invalid Date"
+  const date = (value: unknown) => {
+    const time = Date.parse(str(value))
+    return Number.isNaN(time) ? '' : new Date(time).toISOString()
+  }
+
+  return {
+    id: str(record.id) || `row-${index}`,
+    text,
+    authorName: str(record.authorName) || ANONYMOUS_AUTHOR,
+    authorProfileImageUrl: str(record.authorProfileImageUrl),
+    likeCount: num(record.likeCount),
+    publishedAt: date(record.publishedAt),
+    parentId: str(record.parentId) || undefined,
+    replyCount: num(record.replyCount)
+  }
+}
+
+/**
+ * Parse a JSON export: either an array of comments or { comments: [...] }
+ */
+export function parseCommentsJSON(text: string): Comment[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(stripBOM(text))
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { comments?: unknown })?.comments
+
+  if (!Array.isArray(records)) {
+    throw new Error('Expected a JSON array of comments or an object with a "comments" array')
+  }
+
+  return records
+    .map((r, i) => (r && typeof r === 'object' ? toComment(r as Record<string, unknown>, i) : null))
+    .filter((c): c is Comment => c !== null)
+}
+
+/**
+ * Parse a CSV export with a header row naming Comment fields (at least "text")
+ */
+export function parseCommentsCSV(text: string): Comment[] {
+  const [header, ...rows] = parseCSV(stripBOM(text))
+  if (!header) return []
+
+  const columns = header.map(h => h.trim())
+  if (!columns.includes('text')) {
+    throw new Error('CSV header must include a "text" column')
+  }
+
+  return rows
+    .map((fields, i) => toComment(Object.fromEntries(columns.map((col, j) => [col, fields[j]])), i))
+    .filter((c): c is Comment => c !== null)
+}
+
+/**
+ * Read an uploaded JSON or CSV file of comments
+ */
+export async function readCommentFile(file: File): Promise<Comment[]> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('File is too large (20 MB max)')
+  }
+
+  const text = await file.text()
+  const isCSV = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv'
+  const comments = isCSV ? parseCommentsCSV(text) : parseCommentsJSON(text)
+
+  if (comments.length === 0) {
+    throw new Error('No comments with text were found in this file')
+  }
+
+  return comments
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { findDuplicateGroups } from './duplicates'
+import { CommentWithEmbedding } from './embeddings'
+
+const comment = (id: string, text: string, likeCount = 0, embedding = [1, 0, 0]): CommentWithEmbedding => ({
+  id,
+  text,
+  authorName: 'someone',
+  authorProfileImageUrl: '',
+  likeCount,
+  publishedAt: '',
+  replyCount: 0,
+  embedding
+})
+
+const options = { embeddingSimilarity: 0.9 }
+const COPYPASTA = 'If you are reading this in 2024 you have great taste in music and a kind heart'
+
+test('groups exact copies whatever their case and punctuation, most-liked first', () => {
+  const groups = findDuplicateGroups([
+    comment('a', 'Who is still listening in 2024?'),
+    comment('b', 'who is still listening in 2024', 12),
+    comment('c', 'WHO IS STILL LISTENING IN 2024!!!', 3),
+    comment('d', 'The bridge at 2:31 is perfect'),
+  ], options)
+
+  assert.deepEqual(groups, [{ canonicalId: 'b', memberIds: ['a', 'b', 'c'] }])
+})
+
+test('groups near-identical copypasta', () => {
+  const groups = findDuplicateGroups([
+    comment('a', COPYPASTA),
+    comment('b', COPYPASTA.replace('2024', '2025')),
+    comment('c', COPYPASTA.replace('great taste', 'really great taste'), 5),
+    comment('d', 'This song got me through a really hard year'),
+  ], options)
+
+  assert.deepEqual(groups, [{ canonicalId: 'c', memberIds: ['a', 'b', 'c'] }])
+})
+
+test('keeps distinct comments apart, and similar wording with a different meaning', () => {
+  const comments = [
+    comment('a', 'The guitar solo at the end gives me chills every single time'),
+    comment('b', 'My dad used to play this in the car on the way to school'),
+    comment('c', 'Best live performance I have ever seen from any band'),
+    comment('d', COPYPASTA),
+    // Shares most of its wording with d but its embedding points elsewhere
+    comment('e', COPYPASTA.replace('kind heart', 'cold heart'), 0, [0, 1, 0]),
+  ]
+
+  assert.deepEqual(findDuplicateGroups(comments, options), [])
+})
+
+test('gives the same groups on every run', () => {
+  const others = [
+    'The guitar solo at the end gives me chills every single time',
+    'My dad used to play this in the car on the way to school',
+    'Best live performance I have ever seen from any band',
+    'Nobody talks about how good the bass line is',
+    'Played this at our wedding and everyone cried',
+  ]
+  const comments = [
+    ...Array.from({ length: 10 }, (_, i) => comment(`copy${i}`, COPYPASTA.replace('2024', String(2010 + i)))),
+    ...others.map((text, i) => comment(`other${i}`, text)),
+  ]
+
+  const first = findDuplicateGroups(comments, options)
+  assert.deepEqual(findDuplicateGroups(comments, options), first)
+  assert.equal(first.length, 1)
+  assert.equal(first[0].memberIds.length, 10)
+})
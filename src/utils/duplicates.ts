@@ -0,0 +1,169 @@
+import { CommentWithEmbedding } from './embeddings'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProviders'
+import { cosineSimilarity } from './vectors'
+import { cleanText } from './wordProcessor'
+
+export interface DuplicateGroup {
+  // The copy that stands for the group: the most-liked, first listed on a tie
+  canonicalId: string
+  // Every copy, canonical included
+  memberIds: string[]
+}
+
+export interface DuplicateOptions {
+  // Jaccard overlap of character shingles needed to call two texts near-identical
+  shingleSimilarity?: number
+  // Embedding similarity needed as well, so a shared long phrase with a different point
+  // isn't merged; defaults per provider
+  embeddingSimilarity?: number
+  provider?: EmbeddingProvider
+}
+
+const SHINGLE_SIZE = 4
+// MinHash signature length = bands × rows; two texts with Jaccard s share a
+// band with probability 1 - (1 - s^rows)^bands (about 0.98 at s = 0.6)
+const MINHASH_BANDS = 10
+const MINHASH_ROWS = 3
+
+/**
+ * Text reduced to what makes copies of it the same: lowercase words without
+ * punctuation, URLs or emoji. Falls back to the raw text for emoji floods
+ * that cleaning would erase entirely.
+ */
+function normalizeForDuplicates(text: string): string {
+  const cleaned = cleanText(text).replace(/['-]/g, '').replace(/\s+/g, ' ').trim()
+  return cleaned || text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Overlapping character n-grams of a text (the whole text when shorter)
+ */
+function shingles(text: string): Set<string> {
+  const result = new Set<string>()
+  if (text.length <= SHINGLE_SIZE) {
+    result.add(text)
+    return result
+  }
+  for (let i = 0; i <= text.length - SHINGLE_SIZE; i++) result.add(text.slice(i, i + SHINGLE_SIZE))
+  return result
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0
+  for (const item of a) if (b.has(item)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * MinHash signature: per hash function, the smallest hash over the shingles
+ */
+function minHash(shingleSet: Set<string>): number[] {
+  const hashes = [...shingleSet].map(hashString)
+  return Array.from({ length: MINHASH_BANDS * MINHASH_ROWS }, (_, fn) => {
+    const seed = Math.imul(fn + 1, 0x9e3779b1)
+    let min = Infinity
+    for (const h of hashes) {
+      let x = (h ^ seed) >>> 0
+      x = Math.imul(x ^ (x >>> 16), 0x85ebca6b)
+      x = Math.imul(x ^ (x >>> 13), 0xc2b2ae35)
+      x = (x ^ (x >>> 16)) >>> 0
+      if (x < min) min = x
+    }
+    return min
+  })
+}
+
+/**
+ * Group copypasta and near-identical comments. Identical normalized texts are
+ * grouped outright; the rest are paired up through MinHash buckets on their
+ * shingles and kept only when both the shingle overlap and the embedding
+ * similarity are high. Returns groups of two or more.
+ */
+export function findDuplicateGroups(
+  comments: CommentWithEmbedding[],
+  options: DuplicateOptions = {}
+): DuplicateGroup[] {
+  const { shingleSimilarity = 0.6 } = options
+  const embeddingSimilarity = options.embeddingSimilarity ?? (options.provider ?? getEmbeddingProvider()).similarity.duplicate
+
+  // Exact copies first; only one text per set of copies goes through the near-duplicate search
+  const byText = new Map<string, number[]>()
+  comments.forEach((comment, i) => {
+    const text = normalizeForDuplicates(comment.text)
+    const copies = byText.get(text)
+    if (copies) copies.push(i)
+    else byText.set(text, [i])
+  })
+  const texts = [...byText.keys()]
+  const copies = [...byText.values()]
+
+  // Union-find over distinct texts
+  const parent = texts.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const shingleSets = texts.map(shingles)
+  const buckets = new Map<string, number[]>()
+  shingleSets.forEach((set, t) => {
+    const signature = minHash(set)
+    for (let band = 0; band < MINHASH_BANDS; band++) {
+      const key = `${band}:${signature.slice(band * MINHASH_ROWS, (band + 1) * MINHASH_ROWS).join(',')}`
+      const bucket = buckets.get(key)
+      if (bucket) bucket.push(t)
+      else buckets.set(key, [t])
+    }
+  })
+
+  const checked = new Set<string>()
+  for (const bucket of buckets.values()) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const x = bucket[a], y = bucket[b]
+        if (find(x) === find(y)) continue
+        const pair = `${x},${y}`
+        if (checked.has(pair)) continue
+        checked.add(pair)
+
+        if (jaccard(shingleSets[x], shingleSets[y]) < shingleSimilarity) continue
+        const ex = comments[copies[x][0]].embedding
+        const ey = comments[copies[y][0]].embedding
+        if (ex.length > 0 && ey.length > 0 && cosineSimilarity(ex, ey) < embeddingSimilarity) continue
+        parent[find(x)] = find(y)
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>()
+  copies.forEach((indices, t) => {
+    const root = find(t)
+    const group = groups.get(root)
+    if (group) group.push(...indices)
+    else groups.set(root, [...indices])
+  })
+
+  return [...groups.values()]
+    .filter(indices => indices.length > 1)
+    .map(indices => {
+      const members = indices.sort((a, b) => a - b).map(i => comments[i])
+      const canonical = members.reduce((best, c) => (c.likeCount > best.likeCount ? c : best))
+      return { canonicalId: canonical.id, memberIds: members.map(c => c.id) }
+    })
+    .sort((a, b) => b.memberIds.length - a.memberIds.length)
+}
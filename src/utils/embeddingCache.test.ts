@@ -0,0 +1,72 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  EMBEDDING_CACHE_LIMITS,
+  clearEmbeddingCache,
+  getCachedEmbeddings,
+  getEmbeddingCacheStats,
+  putCachedEmbeddings
+} from './embeddingCache'
+
+const MODEL = 'test-model'
+const DEFAULT_LIMITS = { ...EMBEDDING_CACHE_LIMITS }
+
+// lastUsed has millisecond resolution; keep writes apart so their order is clear
+const tick = () => new Promise(resolve => setTimeout(resolve, 5))
+
+const vector = (value: number) => [value, value, value, value]
+
+beforeEach(() => clearEmbeddingCache())
+afterEach(() => Object.assign(EMBEDDING_CACHE_LIMITS, DEFAULT_LIMITS))
+
+test('returns stored embeddings and null for misses', async () => {
+  await putCachedEmbeddings(MODEL, ['a', 'b'], [vector(0.5), vector(0.25)])
+
+  assert.deepEqual(await getCachedEmbeddings(MODEL, ['b', 'c', 'a']), [vector(0.25), null, vector(0.5)])
+  // Another model's vector space is a separate cache
+  assert.deepEqual(await getCachedEmbeddings('other-model', ['a']), [null])
+})
+
+test('keeps running totals without counting a replaced entry twice', async () => {
+  await putCachedEmbeddings(MODEL, ['a', 'b'], [vector(0.5), vector(0.25)])
+  await putCachedEmbeddings(MODEL, ['b', 'c'], [vector(1), vector(2)])
+  assert.deepEqual(await getEmbeddingCacheStats(), { entries: 3, bytes: 3 * 16 })
+
+  await clearEmbeddingCache()
+  assert.deepEqual(await getEmbeddingCacheStats(), { entries: 0, bytes: 0 })
+})
+
+test('skips failed (empty) embeddings', async () => {
+  await putCachedEmbeddings(MODEL, ['a', 'b'], [[], vector(1)])
+  assert.deepEqual(await getCachedEmbeddings(MODEL, ['a', 'b']), [null, vector(1)])
+  assert.deepEqual(await getEmbeddingCacheStats(), { entries: 1, bytes: 16 })
+})
+
+test('evicts the least recently used entries beyond the entry limit', async () => {
+  EMBEDDING_CACHE_LIMITS.maxEntries = 3
+  for (const text of ['a', 'b', 'c']) {
+    await putCachedEmbeddings(MODEL, [text], [vector(1)])
+    await tick()
+  }
+  // Reading 'a' makes 'b' the least recently used
+  await getCachedEmbeddings(MODEL, ['a'])
+  await tick()
+  await putCachedEmbeddings(MODEL, ['d'], [vector(1)])
+
+  assert.deepEqual(await getEmbeddingCacheStats(), { entries: 3, bytes: 3 * 16 })
+  const cached = await getCachedEmbeddings(MODEL, ['a', 'b', 'c', 'd'])
+  assert.deepEqual(cached.map(e => e !== null), [true, false, true, true])
+})
+
+test('evicts the least recently used entries beyond the byte limit', async () => {
+  EMBEDDING_CACHE_LIMITS.maxBytes = 40
+  for (const text of ['a', 'b', 'c']) {
+    await putCachedEmbeddings(MODEL, [text], [vector(1)])
+    await tick()
+  }
+
+  assert.deepEqual(await getEmbeddingCacheStats(), { entries: 2, bytes: 32 })
+  const cached = await getCachedEmbeddings(MODEL, ['a', 'b', 'c'])
+  assert.deepEqual(cached.map(e => e !== null), [false, true, true])
+})
@@ -0,0 +1,229 @@
+const DB_NAME = 'voxtube'
+const DB_VERSION = 2
+const STORE = 'embeddings'
+// Running entry and byte totals, so writes don't have to walk the whole store
+const META_STORE = 'meta'
+const TOTALS_KEY = 'totals'
+
+// Size limits; least recently used entries are evicted beyond these
+export const EMBEDDING_CACHE_LIMITS = {
+  maxEntries: 50_000,
+  maxBytes: 100 * 1024 * 1024
+}
+
+interface CacheEntry {
+  key: string
+  model: string
+  embedding: Float32Array
+  bytes: number
+  lastUsed: number
+}
+
+export interface EmbeddingCacheStats {
+  entries: number
+  bytes: number
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+/**
+ * Open (and lazily create) the cache database. Resolves to null where
+ * IndexedDB is unavailable (private mode, tests), which disables caching.
+ */
+function openDB(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null)
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      // Version 1 kept no totals; being a cache, it simply starts over
+      if (event.oldVersion > 0) db.deleteObjectStore(STORE)
+      const store = db.createObjectStore(STORE, { keyPath: 'key' })
+      store.createIndex('lastUsed', 'lastUsed')
+      db.createObjectStore(META_STORE)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.error('Embedding cache unavailable:', request.error)
+      resolve(null)
+    }
+  })
+
+  return dbPromise
+}
+
+/**
+ * Promise wrapper for a finished transaction
+ */
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+/**
+ * SHA-256 of the text, hex encoded
+ */
+async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+}
+
+async function cacheKeys(model: string, texts: string[]): Promise<string[]> {
+  const hashes = await Promise.all(texts.map(hashText))
+  return hashes.map(hash => `${model}:${hash}`)
+}
+
+/**
+ * Look up embeddings for already-cleaned texts. Misses are null.
+ * Hits get their lastUsed timestamp refreshed.
+ */
+export async function getCachedEmbeddings(model: string, texts: string[]): Promise<(number[] | null)[]> {
+  const db = await openDB()
+  if (!db || texts.length === 0) return texts.map(() => null)
+
+  try {
+    const keys = await cacheKeys(model, texts)
+    const tx = db.transaction(STORE, 'readwrite')
+    const store = tx.objectStore(STORE)
+    const now = Date.now()
+    const results: (number[] | null)[] = texts.map(() => null)
+
+    keys.forEach((key, i) => {
+      const request = store.get(key)
+      request.onsuccess = () => {
+        const entry = request.result as CacheEntry | undefined
+        if (!entry) return
+        results[i] = Array.from(entry.embedding)
+        store.put({ ...entry, lastUsed: now })
+      }
+    })
+
+    await done(tx)
+    return results
+  } catch (error) {
+    console.error('Embedding cache read failed:', error)
+    return texts.map(() => null)
+  }
+}
+
+/**
+ * Store embeddings for already-cleaned texts, then evict down to the limits
+ */
+export async function putCachedEmbeddings(model: string, texts: string[], embeddings: number[][]): Promise<void> {
+  const db = await openDB()
+  if (!db) return
+
+  try {
+    const keys = await cacheKeys(model, texts)
+    const tx = db.transaction([STORE, META_STORE], 'readwrite')
+    const store = tx.objectStore(STORE)
+    const meta = tx.objectStore(META_STORE)
+    const now = Date.now()
+    let totals: EmbeddingCacheStats = { entries: 0, bytes: 0 }
+
+    // Requests complete in the order they're made, so each callback below
+    // sees the totals left by the ones before it
+    const totalsRequest = meta.get(TOTALS_KEY)
+    totalsRequest.onsuccess = () => {
+      totals = (totalsRequest.result as EmbeddingCacheStats | undefined) ?? totals
+    }
+
+    keys.forEach((key, i) => {
+      const embedding = embeddings[i]
+      if (!embedding || embedding.length === 0) return
+      const entry: CacheEntry = {
+        key,
+        model,
+        embedding: Float32Array.from(embedding),
+        bytes: embedding.length * Float32Array.BYTES_PER_ELEMENT,
+        lastUsed: now
+      }
+      const existing = store.get(key)
+      existing.onsuccess = () => {
+        const replaced = existing.result as CacheEntry | undefined
+        if (replaced) totals.bytes -= replaced.bytes
+        else totals.entries++
+        totals.bytes += entry.bytes
+        store.put(entry)
+      }
+    })
+
+    // Runs after every entry above is counted
+    const last = meta.getKey(TOTALS_KEY)
+    last.onsuccess = () => evict(store, meta, totals)
+
+    await done(tx)
+  } catch (error) {
+    console.error('Embedding cache write failed:', error)
+  }
+}
+
+/**
+ * Only when over a limit: delete least recently used entries until back
+ * under both, then save the totals
+ */
+function evict(store: IDBObjectStore, meta: IDBObjectStore, totals: EmbeddingCacheStats): void {
+  const { maxEntries, maxBytes } = EMBEDDING_CACHE_LIMITS
+  if (totals.entries <= maxEntries && totals.bytes <= maxBytes) {
+    meta.put(totals, TOTALS_KEY)
+    return
+  }
+
+  const request = store.index('lastUsed').openCursor()
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor || (totals.entries <= maxEntries && totals.bytes <= maxBytes)) {
+      meta.put(totals, TOTALS_KEY)
+      return
+    }
+
+    totals.entries--
+    totals.bytes -= (cursor.value as CacheEntry).bytes
+    cursor.delete()
+    cursor.continue()
+  }
+}
+
+/**
+ * Entries and their stored size, from the running totals
+ */
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+  const db = await openDB()
+  if (!db) return { entries: 0, bytes: 0 }
+
+  try {
+    const tx = db.transaction(META_STORE, 'readonly')
+    const request = tx.objectStore(META_STORE).get(TOTALS_KEY)
+    await done(tx)
+    return (request.result as EmbeddingCacheStats | undefined) ?? { entries: 0, bytes: 0 }
+  } catch (error) {
+    console.error('Embedding cache stats failed:', error)
+    return { entries: 0, bytes: 0 }
+  }
+}
+
+/**
+ * Remove every cached embedding
+ */
+export async function clearEmbeddingCache(): Promise<void> {
+  const db = await openDB()
+  if (!db) return
+
+  try {
+    const tx = db.transaction([STORE, META_STORE], 'readwrite')
+    tx.objectStore(STORE).clear()
+    tx.objectStore(META_STORE).clear()
+    await done(tx)
+  } catch (error) {
+    console.error('Embedding cache clear failed:', error)
+  }
+}
@@ -0,0 +1,32 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getEmbeddingProvider, localEmbeddingProvider, openAIEmbeddingProvider, vectorizeLocally } from './embeddingProviders'
+import { cosineSimilarity } from './vectors'
+
+test('vectorizeLocally is deterministic and unit length', () => {
+  const vector = vectorizeLocally('That guitar solo gave me chills')
+
+  assert.deepEqual(vectorizeLocally('That guitar solo gave me chills'), vector)
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  assert.ok(Math.abs(norm - 1) < 1e-9)
+})
+
+test('vectorizeLocally puts related comments closer than unrelated ones', () => {
+  const solo = vectorizeLocally('the guitar solo is insane')
+  const related = vectorizeLocally('that guitar solo gave me chills')
+  const unrelated = vectorizeLocally('my grandmother loved this band')
+
+  assert.ok(cosineSimilarity(solo, related) > cosineSimilarity(solo, unrelated))
+  // Unspaced scripts still get features from their characters
+  assert.ok(vectorizeLocally('この曲が大好き').length > 0)
+})
+
+test('texts without usable words embed to an empty vector, like a failed request', async () => {
+  assert.deepEqual(vectorizeLocally('!!! ...'), [])
+  assert.deepEqual(await localEmbeddingProvider.embed(['', 'lovely melody']).then(v => v.map(e => e.length > 0)), [false, true])
+})
+
+test('getEmbeddingProvider finds providers by id', () => {
+  assert.equal(getEmbeddingProvider('openai'), openAIEmbeddingProvider)
+  assert.equal(getEmbeddingProvider('local'), localEmbeddingProvider)
+})
@@ -0,0 +1,172 @@
+import { cleanText, tokenize } from './wordProcessor'
+import { getOpenAIClient } from './llmProvider'
+import { API_PROXY_URL, postToProxy } from './proxy'
+import { loadSettings, EmbeddingProviderId } from '../config/settings'
+import { OPENAI_EMBEDDING_MODEL } from '../config/models'
+
+/**
+ * Cosine similarity cut-offs for one vector space. Similarities live on
+ * different scales per provider, so each sets its own.
+ */
+export interface SimilarityThresholds {
+  // Below this a summary sentence counts as weakly supported by the comments
+  weakSupport: number
+  // At or above this two comments say the same thing
+  duplicate: number
+  // Below this a comment isn't about a search query or question at all
+  relevant: number
+  // Needed to an emotion's example comments to carry that label
+  emotion: number
+  // How much closer to one polarity than the other a comment must be to not be neutral
+  polarityMargin: number
+}
+
+/**
+ * Turns texts into vectors. `model` identifies the vector space, so
+ * embeddings from different providers are never cached or compared together.
+ */
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId
+  label: string
+  model: string
+  batchSize: number
+  batchDelayMs: number
+  similarity: SimilarityThresholds
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
+}
+
+/**
+ * OpenAI's text-embedding-3-small (remote, needs VITE_OPENAI_API_KEY or the API proxy)
+ */
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  id: 'openai',
+  label: `OpenAI (${OPENAI_EMBEDDING_MODEL})`,
+  model: OPENAI_EMBEDDING_MODEL,
+  batchSize: 50,
+  batchDelayMs: 200,
+  similarity: {
+    weakSupport: 0.35,
+    duplicate: 0.9,
+    relevant: 0.3,
+    emotion: 0.38,
+    polarityMargin: 0.02,
+  },
+  async embed(texts, signal) {
+    if (API_PROXY_URL) {
+      const response = await postToProxy<{ data: { embedding: number[] }[] }>('/api/embed', {
+        model: OPENAI_EMBEDDING_MODEL,
+        input: texts
+      }, signal)
+      return response.data.map(item => item.embedding)
+    }
+
+    const response = await getOpenAIClient().embeddings.create({
+      model: OPENAI_EMBEDDING_MODEL,
+      input: texts,
+    }, { signal })
+    return response.data.map(item => item.embedding)
+  }
+}
+
+// Dimensions of the hashed feature space for the local provider
+const LOCAL_DIMENSIONS = 512
+
+/**
+ * FNV-1a 32-bit hash
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]+/gu
+
+/**
+ * Word unigrams and bigrams plus character trigrams (for typos and word forms),
+ * each with a weight reflecting how much it says about meaning. Runs of scripts
+ * without spaces have no words to split, so their characters and character
+ * pairs stand in for them.
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const features = new Map<string, number>()
+  const add = (feature: string, weight: number) => {
+    features.set(feature, (features.get(feature) || 0) + weight)
+  }
+
+  const cleaned = cleanText(text)
+  for (const [run] of cleaned.matchAll(UNSPACED_SCRIPTS)) {
+    const chars = [...run]
+    chars.forEach((char, i) => {
+      add(`u:${char}`, 0.5)
+      if (i > 0) add(`u:${chars[i - 1]}${char}`, 1)
+    })
+  }
+
+  const words = tokenize(cleaned.replace(UNSPACED_SCRIPTS, ' '))
+  words.forEach((word, i) => {
+    add(`w:${word}`, 1)
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, 0.7)
+
+    const padded = `^${word}$`
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      add(`c:${padded.slice(j, j + 3)}`, 0.2)
+    }
+  })
+
+  return features
+}
+
+/**
+ * Vectorize one text: sublinear term weights, signed feature hashing, L2 norm.
+ * Texts with no usable words produce an empty vector, like a failed API call.
+ */
+export function vectorizeLocally(text: string): number[] {
+  const vector = new Array(LOCAL_DIMENSIONS).fill(0)
+
+  for (const [feature, weight] of extractFeatures(text)) {
+    const hash = hashFeature(feature)
+    const sign = hash & 0x80000000 ? -1 : 1
+    vector[hash % LOCAL_DIMENSIONS] += sign * (1 + Math.log(weight + 1))
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm === 0 ? [] : vector.map(v => v / norm)
+}
+
+/**
+ * In-browser bag-of-n-grams vectorizer. No network, no key, deterministic.
+ */
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local',
+  label: 'On-device (hashed n-grams)',
+  model: 'local-hashed-ngrams-v2',
+  batchSize: 500,
+  batchDelayMs: 0,
+  similarity: {
+    weakSupport: 0.12,
+    duplicate: 0.8,
+    relevant: 0.2,
+    emotion: 0.12,
+    polarityMargin: 0.04,
+  },
+  async embed(texts) {
+    return texts.map(vectorizeLocally)
+  }
+}
+
+export const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: openAIEmbeddingProvider,
+  local: localEmbeddingProvider,
+}
+
+/**
+ * Provider chosen in settings (or the one given)
+ */
+export function getEmbeddingProvider(id: EmbeddingProviderId = loadSettings().embeddingProvider): EmbeddingProvider {
+  return EMBEDDING_PROVIDERS[id] ?? localEmbeddingProvider
+}
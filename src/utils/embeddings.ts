@@ -1,20 +1,31 @@
-import OpenAI from 'openai'
-
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || ''
-
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true // Required for client-side usage
-})
-
-export interface CommentWithEmbedding {
-  id: string
-  text: string
-  authorName: string
-  authorProfileImageUrl: string
-  likeCount: number
-  publishedAt: string
+import type { Comment } from './youtube'
+import type { Sentiment } from './emotions'
+import { getCachedEmbeddings, putCachedEmbeddings } from './embeddingCache'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProviders'
+
+export { cosineSimilarity, computeDistanceMatrix } from './vectors'
+
+export interface CommentWithEmbedding extends Comment {
   embedding: number[]
+  // Polarity and emotions, added once the comment has been labeled
+  sentiment?: Sentiment
+}
+
+/**
+ * How replies take part in analysis:
+ * - 'separate': every reply is its own voice
+ * - 'fold': replies are merged into their parent's embedding and dropped from the list
+ */
+export type ReplyMode = 'separate' | 'fold'
+
+export interface EmbeddingRequestOptions {
+  provider?: EmbeddingProvider
+  signal?: AbortSignal
+  onProgress?: (done: number, total: number) => void
+}
+
+export interface EmbedCommentsOptions extends EmbeddingRequestOptions {
+  replyMode?: ReplyMode
 }
 
 /**
@@ -38,41 +49,33 @@ function cleanTextForEmbedding(text: string): string {
 }
 
 /**
- * Delay helper for rate limiting
+ * Delay helper for rate limiting (resolves early and throws if aborted)
  */
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
 }
 
 /**
- * Get embeddings for a batch of texts using OpenAI's text-embedding-3-small
- * Uses smaller batches and retries for rate limiting
+ * Request embeddings from a provider in batches
+ * Uses the provider's batch size and delay, and retries on rate limiting
  */
-export async function getEmbeddings(texts: string[]): Promise<number[][]> {
-  if (texts.length === 0) return []
-
-  // Clean all texts and track which ones are valid
-  const cleanedTexts = texts.map(cleanTextForEmbedding)
-  const validIndices: number[] = []
-  const validTexts: string[] = []
-  
-  cleanedTexts.forEach((text, i) => {
-    if (text.length > 0) {
-      validIndices.push(i)
-      validTexts.push(text)
-    }
-  })
-
-  if (validTexts.length === 0) {
-    return texts.map(() => [])
-  }
-
-  // Use smaller batch size to avoid rate limits
-  const BATCH_SIZE = 50
-  const validEmbeddings: number[][] = []
+async function requestEmbeddings(
+  provider: EmbeddingProvider,
+  texts: string[],
+  signal: AbortSignal | undefined,
+  onBatch: (embeddedSoFar: number) => void
+): Promise<number[][]> {
+  const BATCH_SIZE = provider.batchSize
+  const embeddingsOut: number[][] = []
   
-  for (let i = 0; i < validTexts.length; i += BATCH_SIZE) {
-    const batch = validTexts.slice(i, i + BATCH_SIZE)
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts.slice(i, i + BATCH_SIZE)
     
     // Retry logic for rate limiting
     let retries = 3
@@ -80,31 +83,27 @@ export async function getEmbeddings(texts: string[]): Promise<number[][]> {
     
     while (retries > 0 && !success) {
       try {
-        const response = await openai.embeddings.create({
-          model: 'text-embedding-3-small',
-          input: batch,
-        })
-
-        const embeddings = response.data.map(item => item.embedding)
-        validEmbeddings.push(...embeddings)
+        const embeddings = await provider.embed(batch, signal)
+        embeddingsOut.push(...embeddings)
         success = true
         
         // Small delay between batches to avoid rate limiting
-        if (i + BATCH_SIZE < validTexts.length) {
-          await delay(200)
+        if (provider.batchDelayMs > 0 && i + BATCH_SIZE < texts.length) {
+          await delay(provider.batchDelayMs, signal)
         }
       } catch (error: unknown) {
+        signal?.throwIfAborted()
         const err = error as { status?: number; message?: string }
         console.error('Embedding error:', err.message || error)
         
         if (err.status === 429) {
           // Rate limited - wait longer and retry
           console.log('Rate limited, waiting 2 seconds...')
-          await delay(2000)
+          await delay(2000, signal)
           retries--
         } else {
           // Other error - add empty embeddings for this batch
-          validEmbeddings.push(...batch.map(() => []))
+          embeddingsOut.push(...batch.map(() => []))
           success = true
         }
       }
@@ -112,70 +111,99 @@ export async function getEmbeddings(texts: string[]): Promise<number[][]> {
     
     if (!success) {
       // Failed after retries
-      validEmbeddings.push(...batch.map(() => []))
+      embeddingsOut.push(...batch.map(() => []))
+    }
+
+    onBatch(embeddingsOut.length)
+  }
+
+  return embeddingsOut
+}
+
+/**
+ * Get embeddings for a batch of texts with the chosen provider.
+ * Texts already embedded with the same model come from the local cache;
+ * only new or edited texts hit the API.
+ */
+export async function getEmbeddings(texts: string[], options: EmbeddingRequestOptions = {}): Promise<number[][]> {
+  const { provider = getEmbeddingProvider(), signal, onProgress } = options
+  if (texts.length === 0) return []
+
+  // Clean all texts and track which ones are valid
+  const cleanedTexts = texts.map(cleanTextForEmbedding)
+  const validIndices: number[] = []
+  const validTexts: string[] = []
+  
+  cleanedTexts.forEach((text, i) => {
+    if (text.length > 0) {
+      validIndices.push(i)
+      validTexts.push(text)
     }
+  })
+
+  if (validTexts.length === 0) {
+    return texts.map(() => [])
   }
 
+  const cached = await getCachedEmbeddings(provider.model, validTexts)
+  const missIndices = cached.flatMap((embedding, i) => (embedding ? [] : [i]))
+  const hits = validTexts.length - missIndices.length
+  onProgress?.(hits, validTexts.length)
+
+  const missTexts = missIndices.map(i => validTexts[i])
+  const fetched = missTexts.length > 0
+    ? await requestEmbeddings(provider, missTexts, signal, (n) => onProgress?.(hits + n, validTexts.length))
+    : []
+  await putCachedEmbeddings(provider.model, missTexts, fetched)
+
+  const validEmbeddings: number[][] = cached.map(embedding => embedding || [])
+  missIndices.forEach((validIdx, i) => {
+    validEmbeddings[validIdx] = fetched[i] || []
+  })
+
   // Map embeddings back to original indices
   const result: number[][] = texts.map(() => [])
   validIndices.forEach((originalIdx, embeddingIdx) => {
     result[originalIdx] = validEmbeddings[embeddingIdx] || []
   })
 
-  console.log(`Embeddings: ${validEmbeddings.filter(e => e.length > 0).length}/${texts.length} successful`)
+  console.log(`Embeddings: ${validEmbeddings.filter(e => e.length > 0).length}/${texts.length} successful (${hits} cached)`)
 
   return result
 }
 
 /**
- * Add embeddings to comments
+ * Add embeddings to comments.
+ * In 'fold' mode a parent is embedded together with its replies so the thread
+ * counts as one voice; replies whose parent isn't in the list stay on their own.
  */
 export async function embedComments(
-  comments: { id: string; text: string; authorName: string; authorProfileImageUrl: string; likeCount: number; publishedAt: string }[]
+  comments: Comment[],
+  options: EmbedCommentsOptions = {}
 ): Promise<CommentWithEmbedding[]> {
-  const texts = comments.map(c => c.text)
-  const embeddings = await getEmbeddings(texts)
-
-  return comments.map((comment, i) => ({
-    ...comment,
-    embedding: embeddings[i] || []
-  }))
-}
-
-/**
- * Compute cosine similarity between two vectors
- */
-export function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length || a.length === 0) return 0
-
-  let dotProduct = 0
-  let normA = 0
-  let normB = 0
+  const { replyMode = 'separate', ...requestOptions } = options
+
+  let voices = comments
+  let texts = comments.map(c => c.text)
+
+  if (replyMode === 'fold') {
+    const presentIds = new Set(comments.map(c => c.id))
+    const repliesByParent = new Map<string, string[]>()
+    for (const c of comments) {
+      if (c.parentId && presentIds.has(c.parentId)) {
+        if (!repliesByParent.has(c.parentId)) repliesByParent.set(c.parentId, [])
+        repliesByParent.get(c.parentId)!.push(c.text)
+      }
+    }
 
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i]
-    normA += a[i] * a[i]
-    normB += b[i] * b[i]
+    voices = comments.filter(c => !c.parentId || !presentIds.has(c.parentId))
+    texts = voices.map(c => [c.text, ...(repliesByParent.get(c.id) || [])].join('\n'))
   }
 
-  const denominator = Math.sqrt(normA) * Math.sqrt(normB)
-  return denominator === 0 ? 0 : dotProduct / denominator
-}
+  const embeddings = await getEmbeddings(texts, requestOptions)
 
-/**
- * Compute distance matrix (1 - cosine similarity) for clustering
- */
-export function computeDistanceMatrix(embeddings: number[][]): number[][] {
-  const n = embeddings.length
-  const matrix: number[][] = Array(n).fill(null).map(() => Array(n).fill(0))
-
-  for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const distance = 1 - cosineSimilarity(embeddings[i], embeddings[j])
-      matrix[i][j] = distance
-      matrix[j][i] = distance
-    }
-  }
-
-  return matrix
+  return voices.map((comment, i) => ({
+    ...comment,
+    embedding: embeddings[i] || []
+  }))
 }
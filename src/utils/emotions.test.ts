@@ -0,0 +1,55 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Sentiment, createSentimentLabeler, summarizeEmotions } from './emotions'
+import { EmbeddingProvider, localEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding } from './embeddings'
+
+test('labels comments by their closest prototypes, embedding those once', async () => {
+  let embedded = 0
+  const provider: EmbeddingProvider = {
+    ...localEmbeddingProvider,
+    embed: (texts, signal) => {
+      embedded += texts.length
+      return localEmbeddingProvider.embed(texts, signal)
+    }
+  }
+  const texts = [
+    'this takes me back to my childhood, good old days',
+    'lmao this is hilarious haha',
+    'worst remix ever, i hate it, trash',
+    'the bridge modulates to a minor key',
+  ]
+  const embeddings = await localEmbeddingProvider.embed(texts)
+  const label = createSentimentLabeler({ provider })
+
+  const sentiments = await label(embeddings.map(embedding => ({ embedding }) as CommentWithEmbedding))
+  const prototypeTexts = embedded
+  await label([])
+
+  assert.deepEqual(sentiments.map(s => s.emotions), [['nostalgia'], ['humor'], ['anger'], []])
+  assert.equal(sentiments[2].polarity, 'negative')
+  assert.equal(sentiments[3].polarity, 'neutral')
+  assert.ok(sentiments.every(s => s.source === 'prototypes'))
+  assert.ok(prototypeTexts > 0)
+  assert.equal(embedded, prototypeTexts)
+})
+
+test('summarizeEmotions tallies labeled comments, optionally a subset', () => {
+  const sentiment = (polarity: Sentiment['polarity'], ...emotions: Sentiment['emotions']): Sentiment =>
+    ({ polarity, emotions, source: 'prototypes' })
+  const comments = [
+    { sentiment: sentiment('positive', 'joy', 'love') },
+    { sentiment: sentiment('negative', 'grief') },
+    {},
+    { sentiment: sentiment('positive', 'joy') },
+  ]
+
+  const all = summarizeEmotions(comments)
+  assert.equal(all.total, 3)
+  assert.deepEqual(all.polarity, { positive: 2, neutral: 0, negative: 1 })
+  assert.deepEqual(all.emotions, { nostalgia: 0, joy: 2, grief: 1, love: 1, anger: 0, humor: 0 })
+
+  const some = summarizeEmotions(comments, [1, 2])
+  assert.equal(some.total, 1)
+  assert.equal(some.emotions.grief, 1)
+})
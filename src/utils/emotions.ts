@@ -0,0 +1,181 @@
+import { getEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding, EmbeddingRequestOptions, cosineSimilarity, getEmbeddings } from './embeddings'
+
+export type Polarity = 'positive' | 'negative' | 'neutral'
+
+export type Emotion = 'nostalgia' | 'joy' | 'grief' | 'love' | 'anger' | 'humor'
+
+export const EMOTIONS: Emotion[] = ['nostalgia', 'joy', 'grief', 'love', 'anger', 'humor']
+
+export const POLARITIES: Polarity[] = ['positive', 'neutral', 'negative']
+
+export interface Sentiment {
+  polarity: Polarity
+  // Emotions the comment expresses, strongest first; often none
+  emotions: Emotion[]
+  // 'prototypes' when judged by embedding similarity, 'model' when the language model relabeled it
+  source: 'prototypes' | 'model'
+}
+
+/**
+ * Example phrasings of each label. Each label's prototype is the mean of its
+ * examples' embeddings, so they should read like real comments and cover the
+ * words people actually use.
+ */
+const EMOTION_EXAMPLES: Record<Emotion, string[]> = {
+  nostalgia: [
+    'this takes me back to my childhood',
+    'reminds me of the good old days, miss those times',
+    'i remember listening to this years ago in high school',
+    'who is still listening to this in 2024',
+    'memories of summer nights when we were young',
+  ],
+  joy: [
+    'this song makes me so happy',
+    'i cannot stop dancing and smiling',
+    'pure happiness, this made my day',
+    'such a fun upbeat song, good vibes only',
+    'so excited and joyful every time i hear it',
+  ],
+  grief: [
+    'rest in peace, we miss you so much',
+    'my dad passed away and this was his favorite song',
+    'i lost my mom last year and i cry every time',
+    'played this at the funeral, still heartbroken',
+    'so sad, tears every time, the pain never leaves',
+  ],
+  love: [
+    'this reminds me of my girlfriend, i love her',
+    'our wedding song, i married the love of my life',
+    'falling in love with you all over again',
+    'dedicating this to my husband, my soulmate',
+    'i adore this voice, in love with this song',
+  ],
+  anger: [
+    'this is terrible and i hate it',
+    'so annoying, stop ruining music',
+    'i am so angry about what they did',
+    'worst remix ever, disgusting and shameful',
+    'this is trash and the label should be ashamed',
+  ],
+  humor: [
+    'lmao this is hilarious',
+    'i am dying of laughter haha',
+    'lol the guy in the back is so funny',
+    'that joke killed me 😂😂',
+    'the comments here are funnier than the video',
+  ],
+}
+
+const POLARITY_EXAMPLES: Record<Exclude<Polarity, 'neutral'>, string[]> = {
+  positive: [
+    'this is amazing, beautiful and wonderful',
+    'best song ever, i love it so much',
+    'what a masterpiece, absolutely perfect',
+    'so good, this makes me happy',
+    'incredible voice, thank you for this gift',
+  ],
+  negative: [
+    'this is awful and terrible',
+    'worst song ever, i hate it',
+    'so sad and depressing, it hurts',
+    'boring, overrated and disappointing',
+    'i am angry and upset, this is wrong',
+  ],
+}
+
+// A second emotion is kept only when nearly as close as the first
+const SECOND_EMOTION_RATIO = 0.85
+
+type Prototypes = Record<Emotion | Exclude<Polarity, 'neutral'>, number[]>
+
+function average(vectors: number[][]): number[] {
+  const usable = vectors.filter(v => v.length > 0)
+  if (usable.length === 0) return []
+  const mean = new Array(usable[0].length).fill(0)
+  for (const v of usable) v.forEach((x, i) => { mean[i] += x / usable.length })
+  return mean
+}
+
+/**
+ * Embed the example phrasings with the analysis' provider and average them into
+ * one prototype per label (the examples are cached like any other text)
+ */
+async function embedPrototypes(options: EmbeddingRequestOptions): Promise<Prototypes> {
+  const labels = [...EMOTIONS, 'positive', 'negative'] as const
+  const examples = { ...EMOTION_EXAMPLES, ...POLARITY_EXAMPLES }
+  const texts = labels.flatMap(label => examples[label])
+  const embeddings = await getEmbeddings(texts, { provider: options.provider, signal: options.signal })
+
+  const prototypes = {} as Prototypes
+  let offset = 0
+  for (const label of labels) {
+    prototypes[label] = average(embeddings.slice(offset, offset + examples[label].length))
+    offset += examples[label].length
+  }
+  return prototypes
+}
+
+/**
+ * Creates a labeler that tags comments with polarity and emotions by their
+ * similarity to prototype embeddings. Prototypes are embedded once, on first use.
+ */
+export function createSentimentLabeler(options: EmbeddingRequestOptions = {}) {
+  const provider = options.provider ?? getEmbeddingProvider()
+  const threshold = provider.similarity.emotion
+  const margin = provider.similarity.polarityMargin
+  let prototypes: Promise<Prototypes> | null = null
+
+  return async function label(comments: CommentWithEmbedding[]): Promise<Sentiment[]> {
+    prototypes ??= embedPrototypes({ ...options, provider })
+    const p = await prototypes
+
+    return comments.map(({ embedding }) => {
+      const scored = EMOTIONS
+        .map(emotion => ({ emotion, similarity: cosineSimilarity(embedding, p[emotion]) }))
+        .filter(s => s.similarity >= threshold)
+        .sort((a, b) => b.similarity - a.similarity)
+      const emotions = scored
+        .filter((s, i) => i === 0 || (i === 1 && s.similarity >= scored[0].similarity * SECOND_EMOTION_RATIO))
+        .map(s => s.emotion)
+
+      const positive = cosineSimilarity(embedding, p.positive)
+      const negative = cosineSimilarity(embedding, p.negative)
+      const polarity: Polarity = Math.max(positive, negative) < threshold || Math.abs(positive - negative) < margin
+        ? 'neutral'
+        : positive > negative ? 'positive' : 'negative'
+
+      return { polarity, emotions, source: 'prototypes' }
+    })
+  }
+}
+
+export interface EmotionBreakdown {
+  // Comments with a sentiment label
+  total: number
+  polarity: Record<Polarity, number>
+  // Comments expressing each emotion (a comment with two counts for both)
+  emotions: Record<Emotion, number>
+}
+
+/**
+ * Tally polarity and emotions over comments (or the given indices into them)
+ */
+export function summarizeEmotions(
+  comments: { sentiment?: Sentiment }[],
+  indices?: number[]
+): EmotionBreakdown {
+  const breakdown: EmotionBreakdown = {
+    total: 0,
+    polarity: { positive: 0, neutral: 0, negative: 0 },
+    emotions: { nostalgia: 0, joy: 0, grief: 0, love: 0, anger: 0, humor: 0 },
+  }
+  for (const i of indices ?? comments.keys()) {
+    const sentiment = comments[i]?.sentiment
+    if (!sentiment) continue
+    breakdown.total++
+    breakdown.polarity[sentiment.polarity]++
+    for (const emotion of sentiment.emotions) breakdown.emotions[emotion]++
+  }
+  return breakdown
+}
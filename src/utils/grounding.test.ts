@@ -0,0 +1,47 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { groundSummary, splitSentences } from './grounding'
+import { EmbeddingProvider, localEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding } from './embeddings'
+
+// One axis per topic, so similarities are exact
+const topic = (text: string) =>
+  text.includes('guitar') ? [1, 0, 0] : text.includes('childhood') ? [0, 1, 0] : [0, 0, 1]
+
+const provider: EmbeddingProvider = { ...localEmbeddingProvider, model: 'grounding-test', embed: async (texts) => texts.map(topic) }
+
+const comment = (text: string): CommentWithEmbedding => ({
+  id: text,
+  text,
+  authorName: 'someone',
+  authorProfileImageUrl: '',
+  likeCount: 0,
+  publishedAt: '',
+  replyCount: 0,
+  embedding: topic(text)
+})
+
+test('splitSentences keeps closing quotes and brackets with their sentence', () => {
+  assert.deepEqual(
+    splitSentences('Many say "this is art." Others disagree (mostly fans of the old album.) 3 people cried! Really?'),
+    ['Many say "this is art."', 'Others disagree (mostly fans of the old album.)', '3 people cried!', 'Really?']
+  )
+  // No split inside a number or before a lowercase word
+  assert.deepEqual(splitSentences('Version 2.0 is here. e.g. this one'), ['Version 2.0 is here. e.g. this one'])
+})
+
+test('backs each sentence with its nearest comments and flags unsupported ones', async () => {
+  const comments = ['that guitar solo', 'the guitar tone', 'my childhood song'].map(comment)
+
+  const [guitar, price] = await groundSummary('People love the guitar. Nobody likes the price.', comments, { provider })
+
+  assert.equal(guitar.weak, false)
+  assert.deepEqual(guitar.evidence.slice(0, 2).map(e => e.commentIndex).sort(), [0, 1])
+  assert.equal(price.weak, true)
+  assert.equal(price.support, 0)
+})
+
+test('gives nothing to ground without sentences or comments', async () => {
+  assert.deepEqual(await groundSummary('', [comment('guitar')], { provider }), [])
+  assert.deepEqual(await groundSummary('A sentence.', [], { provider }), [])
+})
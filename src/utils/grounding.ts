@@ -0,0 +1,65 @@
+import { getEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding, EmbeddingRequestOptions, cosineSimilarity, getEmbeddings } from './embeddings'
+
+export interface Evidence {
+  commentIndex: number
+  text: string
+  similarity: number
+}
+
+export interface GroundedSentence {
+  text: string
+  // Mean similarity of the closest comments; null if the sentence couldn't be embedded
+  support: number | null
+  evidence: Evidence[]
+  weak: boolean
+}
+
+// How many nearest comments back a sentence (and are shown as evidence)
+const EVIDENCE_COUNT = 3
+
+/**
+ * Split prose into sentences, keeping closing quotes/brackets with their sentence
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?]["')\]]?)\s+(?=["'(]?[A-Z0-9])/)
+    .map(s => s.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Check each summary sentence against the comments it claims to describe:
+ * embed it, find the nearest comments, and flag sentences nothing really says.
+ */
+export async function groundSummary(
+  summary: string,
+  comments: CommentWithEmbedding[],
+  options: EmbeddingRequestOptions = {}
+): Promise<GroundedSentence[]> {
+  const sentences = splitSentences(summary)
+  if (sentences.length === 0 || comments.length === 0) return []
+
+  const provider = options.provider ?? getEmbeddingProvider()
+  const threshold = provider.similarity.weakSupport
+  const embeddings = await getEmbeddings(sentences, { ...options, provider })
+
+  return sentences.map((text, i) => {
+    const embedding = embeddings[i]
+    if (!embedding || embedding.length === 0) {
+      return { text, support: null, evidence: [], weak: false }
+    }
+
+    const evidence = comments
+      .map((comment, commentIndex) => ({
+        commentIndex,
+        text: comment.text,
+        similarity: cosineSimilarity(embedding, comment.embedding)
+      }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, EVIDENCE_COUNT)
+
+    const support = evidence.reduce((sum, e) => sum + e.similarity, 0) / evidence.length
+    return { text, support, evidence, weak: support < threshold }
+  })
+}
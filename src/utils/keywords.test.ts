@@ -0,0 +1,36 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { extractClusterKeywords } from './keywords'
+import { Cluster } from './clustering'
+
+const cluster = (id: number, commentIndices: number[]): Cluster => ({ id, commentIndices, confidence: 1 })
+
+test('a term frequent in one cluster outranks a term every cluster uses', () => {
+  const comments = [
+    // Cluster 0: "beautiful" everywhere, "guitar" in half
+    { text: 'beautiful guitar tone' },
+    { text: 'guitar chills, beautiful' },
+    { text: 'beautiful vocals' },
+    { text: 'simply beautiful' },
+    // Cluster 1: "beautiful" everywhere too
+    { text: 'beautiful drums' },
+    { text: 'drums beautiful' },
+    { text: 'beautiful lyrics' },
+    { text: 'truly beautiful' },
+  ]
+
+  const keywords = extractClusterKeywords([cluster(0, [0, 1, 2, 3]), cluster(1, [4, 5, 6, 7])], comments)
+
+  // Twice as frequent in its cluster, "beautiful" still ranks below the distinctive term
+  assert.deepEqual(keywords[0].map(k => k.term), ['guitar', 'beautiful'])
+  assert.deepEqual(keywords[1].map(k => k.term), ['drums', 'beautiful'])
+})
+
+test('indexes keywords by cluster id', () => {
+  const comments = [{ text: 'guitar solo' }, { text: 'guitar solo' }, { text: 'sad lyrics' }, { text: 'sad lyrics' }]
+
+  const keywords = extractClusterKeywords([cluster(3, [2, 3]), cluster(1, [0, 1])], comments)
+
+  assert.equal(keywords[1][0].term, 'guitar solo')
+  assert.equal(keywords[3][0].term, 'sad lyrics')
+})
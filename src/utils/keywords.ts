@@ -0,0 +1,100 @@
+import { tokenize } from './wordProcessor'
+import { Cluster } from './clustering'
+
+export interface Keyword {
+  // A word or a two-word phrase
+  term: string
+  score: number
+}
+
+export interface KeywordOptions {
+  // Keywords kept per cluster
+  topN?: number
+  // Comments in the cluster that must use a term (capped by cluster size)
+  minCommentCount?: number
+}
+
+/**
+ * Words and adjacent word pairs of a comment, each counted once
+ */
+function commentTerms(text: string): Set<string> {
+  const words = tokenize(text)
+  const terms = new Set(words)
+  for (let i = 1; i < words.length; i++) {
+    if (words[i - 1] !== words[i]) terms.add(`${words[i - 1]} ${words[i]}`)
+  }
+  return terms
+}
+
+/**
+ * Class-based TF-IDF: treat each cluster as one document and score terms by
+ * how often the cluster uses them, weighted down by how common they are across
+ * all clusters. Returns the top terms per cluster, indexed by cluster id.
+ * Runs locally; no API calls.
+ */
+export function extractClusterKeywords(
+  clusters: Cluster[],
+  comments: { text: string }[],
+  options: KeywordOptions = {}
+): Keyword[][] {
+  const { topN = 5, minCommentCount = 2 } = options
+  if (clusters.length === 0) return []
+
+  // Term counts per cluster, in how many of its comments each term appears
+  const termCache = new Map<number, Set<string>>()
+  const termsOf = (i: number) => {
+    let terms = termCache.get(i)
+    if (!terms) {
+      terms = commentTerms(comments[i]?.text ?? '')
+      termCache.set(i, terms)
+    }
+    return terms
+  }
+  const counts = clusters.map((cluster) => {
+    const perCluster = new Map<string, number>()
+    for (const i of cluster.commentIndices) {
+      for (const term of termsOf(i)) perCluster.set(term, (perCluster.get(term) || 0) + 1)
+    }
+    return perCluster
+  })
+
+  const totals = new Map<string, number>()
+  let allTerms = 0
+  for (const perCluster of counts) {
+    for (const [term, count] of perCluster) {
+      totals.set(term, (totals.get(term) || 0) + count)
+      allTerms += count
+    }
+  }
+  const averageTerms = allTerms / clusters.length
+
+  const keywords: Keyword[][] = []
+  clusters.forEach((cluster, idx) => {
+    const perCluster = counts[idx]
+    const clusterTerms = [...perCluster.values()].reduce((sum, c) => sum + c, 0) || 1
+    const minCount = Math.min(minCommentCount, cluster.commentIndices.length)
+
+    const ranked = [...perCluster.entries()]
+      .filter(([, count]) => count >= minCount)
+      .map(([term, count]) => ({
+        term,
+        score: (count / clusterTerms) * Math.log(1 + averageTerms / totals.get(term)!)
+      }))
+      // On a tie the phrase wins: it says everything its words do, and more
+      .sort((a, b) => b.score - a.score || b.term.split(' ').length - a.term.split(' ').length || a.term.localeCompare(b.term))
+
+    // A phrase and the words inside it say the same thing: keep whichever ranks first
+    const picked: Keyword[] = []
+    for (const keyword of ranked) {
+      if (picked.length >= topN) break
+      const words = keyword.term.split(' ')
+      const overlaps = picked.some((p) => {
+        const pickedWords = p.term.split(' ')
+        return words.some((w) => pickedWords.includes(w))
+      })
+      if (!overlaps) picked.push(keyword)
+    }
+    keywords[cluster.id] = picked
+  })
+  return keywords
+}
@@ -0,0 +1,25 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { generateProseSummary } from './llm'
+import { LLMProvider } from './llmProvider'
+
+test("generateProseSummary leaves the caller's cluster order alone", async () => {
+  const prompts: string[] = []
+  const provider: LLMProvider = {
+    backend: 'mock',
+    complete: async (request) => {
+      prompts.push(request.messages[1].content)
+      return 'A summary.'
+    }
+  }
+  const clusters = [
+    { id: 0, name: 'Small', comments: ['a'], confidence: 1 },
+    { id: 1, name: 'Large', comments: ['b', 'c', 'd'], confidence: 1 }
+  ]
+
+  await generateProseSummary(clusters, undefined, { provider })
+
+  assert.deepEqual(clusters.map(c => c.id), [0, 1])
+  // The prompt still lists the largest group first
+  assert.ok(prompts[0].indexOf('"Large"') < prompts[0].indexOf('"Small"'))
+})
@@ -1,11 +1,18 @@
-import OpenAI from 'openai'
-
-const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY || ''
-
-const openai = new OpenAI({
-  apiKey: OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true
-})
+import { LLMTask } from '../config/settings'
+import { LLMProvider, getLLMProvider } from './llmProvider'
+import {
+  completeWithSchema,
+  clusterNamesSchema,
+  claimsSchema,
+  storyIndicesSchema,
+  spamIndicesSchema,
+  emotionLabelsSchema,
+  EmotionLabelResponse,
+  answerSchema,
+  AnswerResponse,
+  proseSchema,
+  LLMResponseError
+} from './llmSchema'
 
 export interface ClusterName {
   clusterId: number
@@ -18,6 +25,8 @@ export interface Claim {
   text: string
   clusterIds: number[]
   commentCount: number
+  // What the model said commentCount was; callers recount from the clusters
+  statedCount: number
 }
 
 export interface StoryComment {
@@ -26,22 +35,56 @@ export interface StoryComment {
   authorProfileImageUrl?: string
 }
 
+/**
+ * A task that fell back to its default output, for the UI to show
+ */
+export interface LLMFailure {
+  task: LLMTask
+  message: string
+  // Validation problems with the model's last reply, if that was the cause
+  errors: string[]
+}
+
+export interface LLMRequestOptions {
+  provider?: LLMProvider
+  signal?: AbortSignal
+  onFailure?: (failure: LLMFailure) => void
+}
+
+/**
+ * Hand a failed task to the caller (rethrowing if it was really a cancellation)
+ */
+function reportFailure(options: LLMRequestOptions, task: LLMTask, error: unknown) {
+  options.signal?.throwIfAborted()
+  options.onFailure?.({
+    task,
+    message: error instanceof LLMResponseError
+      ? 'The model kept returning malformed output'
+      : (error as Error)?.message || String(error),
+    errors: error instanceof LLMResponseError ? error.errors : []
+  })
+}
+
 /**
  * Generate soft, evocative names for clusters
  * Names should feel like moods/feelings, not categories
  */
 export async function generateClusterNames(
-  clusters: { id: number; comments: string[] }[]
+  // quotes: the comments shown to the model (defaults to the first 10)
+  clusters: { id: number; comments: string[]; quotes?: string[]; keywords?: string[] }[],
+  options: LLMRequestOptions = {}
 ): Promise<ClusterName[]> {
   if (clusters.length === 0) return []
 
   const clusterDescriptions = clusters.map(c => 
-    `Cluster ${c.id} (${c.comments.length} comments):\n${c.comments.slice(0, 10).map(text => `- "${text.slice(0, 150)}"`).join('\n')}`
+    `Cluster ${c.id} (${c.comments.length} comments):\n${c.keywords?.length ? `Distinctive words: ${c.keywords.join(', ')}\n` : ''}${(c.quotes ?? c.comments.slice(0, 10)).map(text => `- "${text.slice(0, 150)}"`).join('\n')}`
   ).join('\n\n')
 
+  const schema = clusterNamesSchema(clusters.map(c => c.id))
+
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const provider = options.provider ?? getLLMProvider()
+    return await completeWithSchema(provider, {
       messages: [
         {
           role: 'system',
@@ -53,7 +96,8 @@ Your names should be:
 - Feelings/moods/experiences, NOT categories
 - Lowercase, no punctuation
 
-Respond with JSON array: [{"clusterId": number, "name": "string", "confidence": 0.0-1.0}]
+Each cluster lists its distinctive words (terms it uses far more than the other clusters); let the name reflect them.
+Name every cluster, using its number as clusterId. Respond with JSON: ${schema.format}
 Confidence reflects how coherent the cluster feels (1.0 = very tight theme, 0.5 = mixed).`
         },
         {
@@ -61,27 +105,10 @@ Confidence reflects how coherent the cluster feels (1.0 = very tight theme, 0.5
           content: `Name these comment clusters:\n\n${clusterDescriptions}`
         }
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.7
-    })
-
-    const content = response.choices[0]?.message?.content
-    if (!content) return clusters.map(c => ({ clusterId: c.id, name: 'unnamed feeling', confidence: 0.5 }))
-
-    const parsed = JSON.parse(content)
-    const names = parsed.clusters || parsed.names || parsed
-    
-    if (Array.isArray(names)) {
-      return names.map((n: { clusterId?: number; cluster_id?: number; name?: string; confidence?: number }, i: number) => ({
-        clusterId: n.clusterId ?? n.cluster_id ?? clusters[i]?.id ?? i,
-        name: n.name || 'unnamed feeling',
-        confidence: n.confidence ?? 0.7
-      }))
-    }
-
-    return clusters.map(c => ({ clusterId: c.id, name: 'unnamed feeling', confidence: 0.5 }))
+    }, schema, options.signal)
   } catch (error) {
-    console.error('Failed to generate cluster names:', error)
+    reportFailure(options, 'naming', error)
     return clusters.map(c => ({ clusterId: c.id, name: 'unnamed feeling', confidence: 0.5 }))
   }
 }
@@ -91,19 +118,22 @@ Confidence reflects how coherent the cluster feels (1.0 = very tight theme, 0.5
  * Each claim cites comment counts and remains epistemically humble
  */
 export async function generateClaims(
-  clusters: { id: number; name: string; comments: string[]; confidence: number }[]
+  clusters: { id: number; name: string; comments: string[]; confidence: number }[],
+  options: LLMRequestOptions = {}
 ): Promise<Claim[]> {
   if (clusters.length === 0) return []
 
   const totalComments = clusters.reduce((sum, c) => sum + c.comments.length, 0)
   
   const clusterSummary = clusters.map(c => 
-    `"${c.name}" (${c.comments.length} comments, ${Math.round(c.confidence * 100)}% coherent):\n${c.comments.slice(0, 5).map(text => `  - "${text.slice(0, 100)}"`).join('\n')}`
+    `Cluster ${c.id} "${c.name}" (${c.comments.length} comments, ${Math.round(c.confidence * 100)}% coherent):\n${c.comments.slice(0, 5).map(text => `  - "${text.slice(0, 100)}"`).join('\n')}`
   ).join('\n\n')
 
+  const schema = claimsSchema(clusters.map(c => c.id))
+
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const provider = options.provider ?? getLLMProvider()
+    const claims = await completeWithSchema(provider, {
       messages: [
         {
           role: 'system',
@@ -117,43 +147,25 @@ export async function generateClaims(
 Structure: 2-4 sentences covering major themes, then minority perspectives.
 End with a reflection that this is "one way of speaking about many experiences."
 
-Respond with JSON: {"claims": [{"text": "...", "clusterIds": [0, 1], "commentCount": 150}]}`
+Cite clusters by their numbers in clusterIds. Respond with JSON: ${schema.format}`
         },
         {
           role: 'user',
           content: `Summarize these ${totalComments} comments across ${clusters.length} clusters:\n\n${clusterSummary}`
         }
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.6
-    })
-
-    const content = response.choices[0]?.message?.content
-    if (!content) {
-      return [{
-        id: 0,
-        text: `${totalComments} comments reveal varied experiences with this music.`,
-        clusterIds: clusters.map(c => c.id),
-        commentCount: totalComments
-      }]
-    }
-
-    const parsed = JSON.parse(content)
-    const claims = parsed.claims || [parsed]
+    }, schema, options.signal)
 
-    return claims.map((claim: { text?: string; clusterIds?: number[]; cluster_ids?: number[]; commentCount?: number; comment_count?: number }, i: number) => ({
-      id: i,
-      text: claim.text || '',
-      clusterIds: claim.clusterIds || claim.cluster_ids || [],
-      commentCount: claim.commentCount || claim.comment_count || 0
-    }))
+    return claims.map((claim, i) => ({ id: i, ...claim, statedCount: claim.commentCount }))
   } catch (error) {
-    console.error('Failed to generate claims:', error)
+    reportFailure(options, 'claims', error)
     return [{
       id: 0,
       text: `${totalComments} comments reveal varied experiences with this music.`,
       clusterIds: clusters.map(c => c.id),
-      commentCount: totalComments
+      commentCount: totalComments,
+      statedCount: totalComments
     }]
   }
 }
@@ -163,21 +175,27 @@ Respond with JSON: {"claims": [{"text": "...", "clusterIds": [0, 1], "commentCou
  * This creates a readable paragraph that captures the essence of all feedback
  */
 export async function generateProseSummary(
-  clusters: { id: number; name: string; comments: string[]; confidence: number }[],
-  videoTitle?: string
+  // likes: total likes on the cluster's comments, given when the analysis weights by likes
+  clusters: { id: number; name: string; comments: string[]; confidence: number; likes?: number }[],
+  videoTitle?: string,
+  options: LLMRequestOptions = {}
 ): Promise<string> {
   if (clusters.length === 0) return ''
 
   const totalComments = clusters.reduce((sum, c) => sum + c.comments.length, 0)
+  const weighted = clusters.some(c => c.likes !== undefined)
 
-  const clusterSummary = clusters
-    .sort((a, b) => b.comments.length - a.comments.length)
-    .map(c => `"${c.name}" (${c.comments.length} comments): ${c.comments.slice(0, 3).join(' | ').slice(0, 200)}`)
+  const clusterSummary = [...clusters]
+    .sort((a, b) => weighted ? (b.likes ?? 0) - (a.likes ?? 0) : b.comments.length - a.comments.length)
+    .map(c => `"${c.name}" (${c.comments.length} comments${weighted ? `, ${c.likes ?? 0} likes` : ''}): ${c.comments.slice(0, 3).join(' | ').slice(0, 200)}`)
     .join('\n')
+  const weighting = weighted
+    ? '\n6. Weigh each group by the likes it received as well as by its size, and point out where the most-liked views differ from the most common ones'
+    : ''
 
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const provider = options.provider ?? getLLMProvider()
+    return await completeWithSchema(provider, {
       messages: [
         {
           role: 'system',
@@ -187,7 +205,7 @@ export async function generateProseSummary(
 2. Mention specific numbers (e.g., "the largest group of 48 comments")
 3. Highlight the dominant sentiment and any notable minority views
 4. Feel like insightful analysis, not a list
-5. Use phrases like "reveals", "captures", "emerges", "suggests"
+5. Use phrases like "reveals", "captures", "emerges", "suggests"${weighting}
 
 Write in third person, as if describing what the comment section shows.`
         },
@@ -197,12 +215,9 @@ Write in third person, as if describing what the comment section shows.`
         }
       ],
       temperature: 0.7
-    })
-
-    const content = response.choices[0]?.message?.content
-    return content || `Analysis of ${totalComments} comments across ${clusters.length} distinct themes.`
+    }, proseSchema, options.signal)
   } catch (error) {
-    console.error('Failed to generate prose summary:', error)
+    reportFailure(options, 'summary', error)
     return `Analysis of ${totalComments} comments across ${clusters.length} distinct themes.`
   }
 }
@@ -212,7 +227,8 @@ Write in third person, as if describing what the comment section shows.`
  * Returns comments where people share meaningful experiences with the song
  */
 export async function detectStoryComments(
-  comments: { text: string; authorDisplayName: string; authorProfileImageUrl?: string }[]
+  comments: { text: string; authorDisplayName: string; authorProfileImageUrl?: string }[],
+  options: LLMRequestOptions = {}
 ): Promise<StoryComment[]> {
   if (comments.length === 0) return []
 
@@ -223,9 +239,11 @@ export async function detectStoryComments(
     `[${i}] "${c.text.slice(0, 300)}"`
   ).join('\n')
 
+  const schema = storyIndicesSchema(sampleComments.length)
+
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const provider = options.provider ?? getLLMProvider()
+    const indices = await completeWithSchema(provider, {
       messages: [
         {
           role: 'system',
@@ -244,26 +262,18 @@ Do NOT include:
 - Short comments without narrative content
 
 Return a JSON object with an array of indices (0-based) of comments that qualify as stories.
-Format: {"story_indices": [0, 5, 12, ...]}`
+Format: ${schema.format}`
         },
         {
           role: 'user',
           content: `Identify which of these comments contain personal stories or memories:\n\n${commentTexts}`
         }
       ],
-      response_format: { type: 'json_object' },
       temperature: 0.3
-    })
-
-    const content = response.choices[0]?.message?.content
-    if (!content) return []
-
-    const parsed = JSON.parse(content)
-    const indices: number[] = parsed.story_indices || []
+    }, schema, options.signal)
 
     // Map indices back to full comment objects
     const storyComments: StoryComment[] = indices
-      .filter(i => i >= 0 && i < sampleComments.length)
       .slice(0, 10) // Limit to top 10 stories
       .map(i => ({
         text: sampleComments[i].text,
@@ -273,13 +283,156 @@ Format: {"story_indices": [0, 5, 12, ...]}`
 
     return storyComments
   } catch (error) {
-    console.error('Failed to detect story comments:', error)
+    reportFailure(options, 'stories', error)
     return []
   }
 }
 
+// Comments per spam-check request
+const SPAM_BATCH_SIZE = 100
 
+/**
+ * Ask the model which comments are spam, bots or self-promotion.
+ * Returns indices into `texts`; on failure, whatever was flagged before it
+ * (so a broken model never hides comments it didn't judge).
+ */
+export async function classifySpamComments(
+  texts: string[],
+  options: LLMRequestOptions = {}
+): Promise<number[]> {
+  const flagged: number[] = []
+
+  for (let start = 0; start < texts.length; start += SPAM_BATCH_SIZE) {
+    const batch = texts.slice(start, start + SPAM_BATCH_SIZE)
+    const commentTexts = batch.map((text, i) => `[${i}] "${text.slice(0, 300)}"`).join('\n')
+    const schema = spamIndicesSchema(batch.length)
+
+    try {
+      const provider = options.provider ?? getLLMProvider()
+      const indices = await completeWithSchema(provider, {
+        messages: [
+          {
+            role: 'system',
+            content: `You screen YouTube comments before they are analyzed, removing those that are not genuine reactions.
+
+Flag comments that are:
+- Self-promotion ("check out my channel", plugs for covers, socials or music)
+- Bots, scams and giveaways (contact numbers, crypto, "DM me to claim")
+- Link drops with no real comment
+
+Do NOT flag:
+- Opinions, jokes, memories or criticism, however short, rude or off-topic
+- Comments that mention other artists or songs
+
+Return a JSON object with the indices (0-based) of the comments to remove.
+Format: ${schema.format}`
+          },
+          {
+            role: 'user',
+            content: `Which of these comments are spam or self-promotion?\n\n${commentTexts}`
+          }
+        ],
+        temperature: 0
+      }, schema, options.signal)
+      flagged.push(...indices.map(i => start + i))
+    } catch (error) {
+      reportFailure(options, 'spam', error)
+      break
+    }
+  }
+
+  return flagged
+}
 
+// Comments per emotion-labeling request
+const EMOTION_BATCH_SIZE = 100
+
+/**
+ * Ask the model for each comment's polarity and emotions. Returns labels keyed
+ * by index into `texts`; on failure, whatever was labeled before it, so the
+ * rest keep their embedding-based labels.
+ */
+export async function classifyEmotions(
+  texts: string[],
+  options: LLMRequestOptions = {}
+): Promise<EmotionLabelResponse[]> {
+  const labels: EmotionLabelResponse[] = []
+
+  for (let start = 0; start < texts.length; start += EMOTION_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMOTION_BATCH_SIZE)
+    const commentTexts = batch.map((text, i) => `[${i}] "${text.slice(0, 300)}"`).join('\n')
+    const schema = emotionLabelsSchema(batch.length)
+
+    try {
+      const provider = options.provider ?? getLLMProvider()
+      const batchLabels = await completeWithSchema(provider, {
+        messages: [
+          {
+            role: 'system',
+            content: `You label the sentiment and emotions of YouTube comments about music.
+
+For each comment give:
+- polarity: how the commenter feels overall (positive, negative or neutral)
+- emotions: at most two of nostalgia, joy, grief, love, anger, humor, strongest first; none if no emotion clearly shows
+
+Grief is about loss and mourning, love about people the commenter loves (not just liking the song), humor about jokes and laughter.
+Label every comment by its index. Respond with JSON: ${schema.format}`
+          },
+          {
+            role: 'user',
+            content: `Label these comments:\n\n${commentTexts}`
+          }
+        ],
+        temperature: 0
+      }, schema, options.signal)
+      labels.push(...batchLabels.map(label => ({ ...label, index: start + label.index })))
+    } catch (error) {
+      reportFailure(options, 'emotions', error)
+      break
+    }
+  }
 
+  return labels
+}
 
+/**
+ * Answer a question about the video using only the given comments, each
+ * sentence citing the comments (1-based, in the order given) it rests on.
+ * Returns null if the model fails.
+ */
+export async function answerFromComments(
+  question: string,
+  comments: string[],
+  options: LLMRequestOptions = {}
+): Promise<AnswerResponse | null> {
+  const commentTexts = comments.map((text, i) => `[${i + 1}] "${text.slice(0, 400)}"`).join('\n')
+  const schema = answerSchema(comments.length)
 
+  try {
+    const provider = options.provider ?? getLLMProvider()
+    return await completeWithSchema(provider, {
+      messages: [
+        {
+          role: 'system',
+          content: `You answer questions about a YouTube video's comment section, using ONLY the numbered comments you are given.
+
+Rules:
+- Every sentence cites, in "sources", the numbers of the comments it is based on
+- Say what commenters say ("several people mention..."), never add facts of your own
+- Keep it to 1-4 sentences, and mention disagreement when the comments disagree
+- If none of the comments address the question, set "answerable" to false and leave "sentences" empty rather than guessing
+
+Respond with JSON: ${schema.format}`
+        },
+        {
+          role: 'user',
+          content: `Question: ${question}\n\nComments:\n${commentTexts}`
+        }
+      ],
+      temperature: 0.3
+    }, schema, options.signal)
+  } catch (error) {
+    reportFailure(options, 'answer', error)
+    return null
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getLLMProvider } from './llmProvider'
+import { LLMFailure, classifyEmotions, classifySpamComments, detectStoryComments, generateClaims, generateClusterNames, generateProseSummary } from './llm'
+import { DEFAULT_SETTINGS, LLMSettings } from '../config/settings'
+
+const realFetch = globalThis.fetch
+afterEach(() => { globalThis.fetch = realFetch })
+
+const settings = (patch: Partial<LLMSettings>): LLMSettings => ({ ...DEFAULT_SETTINGS.llm, ...patch })
+
+test("the mock backend's answers pass every task's schema", async () => {
+  const provider = getLLMProvider(settings({ backend: 'mock' }))
+  const failures: LLMFailure[] = []
+  const options = { provider, onFailure: (f: LLMFailure) => failures.push(f) }
+  const texts = ['I remember my dad playing this', 'subscribe to my channel', 'lol this is hilarious']
+  const clusters = [
+    { id: 0, name: 'memories', comments: [texts[0]], confidence: 0.8 },
+    { id: 1, name: 'laughs', comments: [texts[2]], confidence: 0.6 }
+  ]
+
+  const names = await generateClusterNames(clusters, options)
+  const claims = await generateClaims(clusters, options)
+  const summary = await generateProseSummary(clusters, 'A song', options)
+  const stories = await detectStoryComments(texts.map(text => ({ text, authorDisplayName: 'someone' })), options)
+  const spam = await classifySpamComments(texts, options)
+  const emotions = await classifyEmotions(texts, options)
+
+  assert.deepEqual(failures, [])
+  assert.deepEqual(names.map(n => n.clusterId), [0, 1])
+  assert.deepEqual(claims.map(c => c.clusterIds), [[0], [1]])
+  assert.match(summary, /placeholder summary of 2 comments/)
+  assert.deepEqual(stories.map(s => s.text), [texts[0]])
+  assert.deepEqual(spam, [1])
+  assert.deepEqual(emotions.find(e => e.index === 2)?.emotions, ['humor'])
+})
+
+test('an OpenAI-compatible backend asks its own server for the model configured per task', async () => {
+  const calls: { url: string; model: string }[] = []
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    calls.push({ url: String(input instanceof Request ? input.url : input), model: JSON.parse(String(init?.body)).model })
+    return new Response(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'hello' } }] }), {
+      headers: { 'Content-Type': 'application/json' }
+    })
+  }) as typeof fetch
+
+  const provider = getLLMProvider(settings({
+    backend: 'openai-compatible',
+    baseURL: 'http://localhost:11434/v1',
+    models: { ...DEFAULT_SETTINGS.llm.models, naming: 'llama3.2', summary: 'qwen2.5' }
+  }))
+
+  assert.equal(provider.backend, 'openai-compatible')
+  assert.equal(await provider.complete({ task: 'naming', messages: [{ role: 'user', content: 'hi' }] }), 'hello')
+  await provider.complete({ task: 'summary', messages: [{ role: 'user', content: 'hi' }] })
+
+  assert.deepEqual(calls.map(c => c.model), ['llama3.2', 'qwen2.5'])
+  assert.ok(calls.every(c => c.url.startsWith('http://localhost:11434/v1/chat/completions')))
+})
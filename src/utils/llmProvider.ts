@@ -0,0 +1,173 @@
+import OpenAI from 'openai'
+import { tokenize } from './wordProcessor'
+import { API_PROXY_URL, postToProxy } from './proxy'
+import { loadSettings, LLMBackend, LLMSettings, LLMTask } from '../config/settings'
+
+const OPENAI_API_KEY = import.meta.env?.VITE_OPENAI_API_KEY || ''
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  task: LLMTask
+  messages: ChatMessage[]
+  json?: boolean
+  temperature?: number
+}
+
+/**
+ * A chat backend. Returns the assistant's text, or null for an empty reply.
+ */
+export interface LLMProvider {
+  backend: LLMBackend
+  complete(request: ChatRequest, signal?: AbortSignal): Promise<string | null>
+}
+
+const clients = new Map<string, OpenAI>()
+
+/**
+ * Shared OpenAI SDK client per base URL, created on first use
+ * (the SDK throws on a missing key, which must not break keyless setups)
+ */
+export function getOpenAIClient(baseURL?: string): OpenAI {
+  const key = baseURL || 'openai'
+  let client = clients.get(key)
+  if (!client) {
+    client = new OpenAI({
+      // Local OpenAI-compatible servers ignore the key but the SDK requires one
+      apiKey: baseURL ? OPENAI_API_KEY || 'local' : OPENAI_API_KEY,
+      baseURL,
+      dangerouslyAllowBrowser: true // Required for client-side usage
+    })
+    clients.set(key, client)
+  }
+  return client
+}
+
+/**
+ * OpenAI or any server speaking the OpenAI chat completions API
+ */
+function createOpenAIProvider(settings: LLMSettings, baseURL?: string): LLMProvider {
+  return {
+    backend: settings.backend,
+    async complete(request, signal) {
+      const body = {
+        model: settings.models[request.task],
+        messages: request.messages,
+        ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+        temperature: request.temperature
+      }
+
+      // Hosted OpenAI goes through the proxy when there is one; local servers never do
+      const response = API_PROXY_URL && !baseURL
+        ? await postToProxy<OpenAI.Chat.ChatCompletion>('/api/chat', body, signal)
+        : await getOpenAIClient(baseURL).chat.completions.create(body, { signal })
+      return response.choices[0]?.message?.content ?? null
+    }
+  }
+}
+
+/**
+ * Most frequent meaningful words in a block of text
+ */
+function topWords(text: string, count: number): string[] {
+  const counts = new Map<string, number>()
+  for (const word of tokenize(text)) counts.set(word, (counts.get(word) || 0) + 1)
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([word]) => word)
+}
+
+/**
+ * Deterministic stand-in answers derived from the prompt, for tests and offline demos
+ */
+function mockResponse(request: ChatRequest): string {
+  const prompt = request.messages.filter(m => m.role === 'user').map(m => m.content).join('\n')
+
+  switch (request.task) {
+    case 'naming': {
+      const blocks = prompt.split(/\n(?=Cluster \d+ \()/).filter(b => /^Cluster \d+ \(/.test(b.trim()))
+      const clusters = blocks.map(block => {
+        const clusterId = Number(block.trim().match(/^Cluster (\d+)/)![1])
+        const keywords = block.match(/^Distinctive words: (.*)$/m)?.[1].split(', ')
+        const words = keywords?.slice(0, 2) ?? topWords(block.replace(/^.*\n/, ''), 2)
+        return { clusterId, name: words.join(' ') || `theme ${clusterId + 1}`, confidence: 0.5 }
+      })
+      return JSON.stringify({ clusters })
+    }
+    case 'claims': {
+      const claims = [...prompt.matchAll(/^Cluster (\d+) "([^"]*)" \((\d+) comments/gm)].map(([, id, name, count]) => ({
+        text: `Some listeners share a sense of ${name}.`,
+        clusterIds: [Number(id)],
+        commentCount: Number(count)
+      }))
+      return JSON.stringify({ claims })
+    }
+    case 'stories': {
+      const indices = [...prompt.matchAll(/^\[(\d+)\] "(.*)"$/gm)]
+        .filter(([, , text]) => /\b(remember|when i|my (mom|dad|mother|father|wife|husband|friend))\b/i.test(text))
+        .map(([, index]) => Number(index))
+      return JSON.stringify({ story_indices: indices })
+    }
+    case 'spam': {
+      const indices = [...prompt.matchAll(/^\[(\d+)\] "(.*)"$/gm)]
+        .filter(([, , text]) => /\b(my channel|subscribe|promo code|giveaway|dm me|crypto)\b/i.test(text))
+        .map(([, index]) => Number(index))
+      return JSON.stringify({ spam_indices: indices })
+    }
+    case 'emotions': {
+      const cues: [string, RegExp][] = [
+        ['nostalgia', /\b(remember|childhood|back then|takes me back|years ago)\b/i],
+        ['grief', /\b(rip|rest in peace|passed away|funeral|miss (him|her|you))\b/i],
+        ['love', /\b(love of my life|wedding|girlfriend|boyfriend|wife|husband)\b/i],
+        ['joy', /\b(happy|smil\w*|danc\w*)\b/i],
+        ['anger', /\b(hate|terrible|worst|ruined)\b/i],
+        ['humor', /\b(lol|lmao|haha\w*|hilarious|funny)\b/i],
+      ]
+      const labels = [...prompt.matchAll(/^\[(\d+)\] "(.*)"$/gm)].map(([, index, text]) => {
+        const emotions = cues.filter(([, cue]) => cue.test(text)).map(([emotion]) => emotion).slice(0, 2)
+        const polarity = emotions.some(e => e === 'grief' || e === 'anger') ? 'negative' : emotions.length > 0 ? 'positive' : 'neutral'
+        return { index: Number(index), polarity, emotions }
+      })
+      return JSON.stringify({ labels })
+    }
+    case 'answer': {
+      const sources = [...prompt.matchAll(/^\[(\d+)\] "(.*)"$/gm)].slice(0, 2)
+      const sentences = sources.map(([, index, text]) => ({
+        text: `One commenter says "${text.slice(0, 80)}".`,
+        sources: [Number(index)]
+      }))
+      return JSON.stringify({ answerable: sentences.length > 0, sentences })
+    }
+    case 'summary': {
+      const total = prompt.match(/these (\d+) comments/)?.[1] ?? 'these'
+      return `This is a placeholder summary of ${total} comments generated without a language model.`
+    }
+  }
+}
+
+const mockProvider: LLMProvider = {
+  backend: 'mock',
+  async complete(request, signal) {
+    signal?.throwIfAborted()
+    return mockResponse(request)
+  }
+}
+
+/**
+ * Provider for the configured backend (or the settings given)
+ */
+export function getLLMProvider(settings: LLMSettings = loadSettings().llm): LLMProvider {
+  switch (settings.backend) {
+    case 'openai':
+      return createOpenAIProvider(settings)
+    case 'openai-compatible':
+      return createOpenAIProvider(settings, settings.baseURL)
+    case 'mock':
+    default:
+      return mockProvider
+  }
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { LLMResponseError, clusterNamesSchema, completeWithSchema } from './llmSchema'
+import { ChatRequest, LLMProvider } from './llmProvider'
+import { LLMFailure, generateClusterNames } from './llm'
+
+/**
+ * A provider that gives the queued replies in turn and records each request
+ */
+function scripted(...replies: (string | null)[]) {
+  const requests: ChatRequest[] = []
+  const provider: LLMProvider = {
+    backend: 'mock',
+    complete: async (request) => {
+      requests.push(request)
+      return replies[requests.length - 1] ?? null
+    }
+  }
+  return { provider, requests }
+}
+
+const request = { messages: [{ role: 'user' as const, content: 'Name clusters 0 and 1' }] }
+const valid = JSON.stringify({ clusters: [{ clusterId: 0, name: 'Joy', confidence: 0.9 }, { clusterId: 1, name: 'Loss', confidence: 0.7 }] })
+
+test('returns a valid response from the first reply', async () => {
+  const { provider, requests } = scripted(valid)
+
+  const names = await completeWithSchema(provider, request, clusterNamesSchema([0, 1]))
+
+  assert.deepEqual(names.map(n => n.name), ['Joy', 'Loss'])
+  assert.equal(requests.length, 1)
+  assert.equal(requests[0].task, 'naming')
+  assert.equal(requests[0].json, true)
+})
+
+test('sends the errors back and accepts a repaired reply', async () => {
+  const unknownCluster = JSON.stringify({ clusters: [{ clusterId: 0, name: 'Joy', confidence: 0.9 }, { clusterId: 7, name: 'Loss', confidence: 0.7 }] })
+  const { provider, requests } = scripted(unknownCluster, valid)
+
+  const names = await completeWithSchema(provider, request, clusterNamesSchema([0, 1]))
+
+  assert.deepEqual(names.map(n => n.clusterId), [0, 1])
+  assert.equal(requests.length, 2)
+  const [, assistant, repair] = requests[1].messages
+  assert.equal(assistant.role, 'assistant')
+  assert.equal(assistant.content, unknownCluster)
+  assert.match(repair.content, /clusters\[1\]\.clusterId 7 is not one of the given clusters/)
+  assert.match(repair.content, /Missing names for clusters 1/)
+})
+
+test('throws after a second invalid reply', async () => {
+  const { provider, requests } = scripted('not json', '{"clusters": []}')
+
+  await assert.rejects(
+    completeWithSchema(provider, request, clusterNamesSchema([0, 1])),
+    (err) => err instanceof LLMResponseError &&
+      err.task === 'naming' &&
+      err.content === '{"clusters": []}' &&
+      err.errors.some(e => e.includes('Missing names'))
+  )
+  assert.equal(requests.length, 2)
+})
+
+test('a task that stays invalid falls back and is reported as a failure', async () => {
+  const { provider } = scripted('not json', null)
+  const failures: LLMFailure[] = []
+
+  const names = await generateClusterNames(
+    [{ id: 0, comments: ['so good'] }, { id: 1, comments: ['so sad'] }],
+    { provider, onFailure: (failure) => failures.push(failure) }
+  )
+
+  assert.equal(names.length, 2)
+  assert.equal(failures.length, 1)
+  assert.equal(failures[0].task, 'naming')
+  assert.deepEqual(failures[0].errors, ['The response was empty'])
+})
@@ -0,0 +1,369 @@
+import { LLMTask } from '../config/settings'
+import { ChatRequest, LLMProvider } from './llmProvider'
+import { EMOTIONS, POLARITIES, Emotion, Polarity } from './emotions'
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] }
+
+/**
+ * What a task's response must look like. `format` is shown to the model,
+ * `validate` checks the parsed reply against the request it answers.
+ */
+export interface ResponseSchema<T> {
+  task: LLMTask
+  json: boolean
+  format: string
+  validate(data: unknown): Validation<T>
+}
+
+/**
+ * The model's reply still failed validation after the repair attempt
+ */
+export class LLMResponseError extends Error {
+  constructor(public task: LLMTask, public errors: string[], public content: string | null) {
+    super(`Invalid ${task} response: ${errors.join('; ')}`)
+    this.name = 'LLMResponseError'
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function describeIds(ids: Iterable<number>): string {
+  return [...ids].join(', ')
+}
+
+export interface ClusterNameResponse {
+  clusterId: number
+  name: string
+  confidence: number
+}
+
+/**
+ * One name per input cluster, with ids taken from the prompt
+ */
+export function clusterNamesSchema(clusterIds: number[]): ResponseSchema<ClusterNameResponse[]> {
+  const known = new Set(clusterIds)
+
+  return {
+    task: 'naming',
+    json: true,
+    format: '{"clusters": [{"clusterId": number, "name": "string", "confidence": 0.0-1.0}]}',
+    validate(data) {
+      if (!isRecord(data) || !Array.isArray(data.clusters)) {
+        return { ok: false, errors: ['Expected an object with a "clusters" array'] }
+      }
+
+      const errors: string[] = []
+      const seen = new Set<number>()
+      const value: ClusterNameResponse[] = []
+
+      data.clusters.forEach((entry, i) => {
+        const at = `clusters[${i}]`
+        if (!isRecord(entry)) {
+          errors.push(`${at} must be an object`)
+          return
+        }
+        const { clusterId, name, confidence } = entry
+
+        if (!isNonNegativeInteger(clusterId) || !known.has(clusterId)) {
+          errors.push(`${at}.clusterId ${JSON.stringify(clusterId)} is not one of the given clusters (${describeIds(known)})`)
+        } else if (seen.has(clusterId)) {
+          errors.push(`${at}.clusterId ${clusterId} is named more than once`)
+        }
+        if (typeof name !== 'string' || !name.trim()) {
+          errors.push(`${at}.name must be a non-empty string`)
+        }
+        if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) {
+          errors.push(`${at}.confidence must be a number from 0 to 1`)
+        }
+
+        if (isNonNegativeInteger(clusterId)) seen.add(clusterId)
+        value.push({ clusterId: clusterId as number, name: String(name).trim(), confidence: confidence as number })
+      })
+
+      const missing = clusterIds.filter(id => !seen.has(id))
+      if (missing.length > 0) errors.push(`Missing names for clusters ${describeIds(missing)}`)
+
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value }
+    }
+  }
+}
+
+export interface ClaimResponse {
+  text: string
+  clusterIds: number[]
+  commentCount: number
+}
+
+/**
+ * At least one claim, each citing existing clusters and a non-negative count
+ */
+export function claimsSchema(clusterIds: number[]): ResponseSchema<ClaimResponse[]> {
+  const known = new Set(clusterIds)
+
+  return {
+    task: 'claims',
+    json: true,
+    format: '{"claims": [{"text": "string", "clusterIds": [number], "commentCount": number}]}',
+    validate(data) {
+      if (!isRecord(data) || !Array.isArray(data.claims)) {
+        return { ok: false, errors: ['Expected an object with a "claims" array'] }
+      }
+      if (data.claims.length === 0) {
+        return { ok: false, errors: ['"claims" must contain at least one claim'] }
+      }
+
+      const errors: string[] = []
+      const value: ClaimResponse[] = []
+
+      data.claims.forEach((entry, i) => {
+        const at = `claims[${i}]`
+        if (!isRecord(entry)) {
+          errors.push(`${at} must be an object`)
+          return
+        }
+        const { text, clusterIds: ids, commentCount } = entry
+
+        if (typeof text !== 'string' || !text.trim()) {
+          errors.push(`${at}.text must be a non-empty string`)
+        }
+        if (!Array.isArray(ids) || ids.length === 0) {
+          errors.push(`${at}.clusterIds must be a non-empty array`)
+        } else {
+          const unknown = ids.filter(id => !isNonNegativeInteger(id) || !known.has(id))
+          if (unknown.length > 0) {
+            errors.push(`${at}.clusterIds ${JSON.stringify(unknown)} are not among the given clusters (${describeIds(known)})`)
+          }
+        }
+        if (!isNonNegativeInteger(commentCount)) {
+          errors.push(`${at}.commentCount must be a non-negative integer`)
+        }
+
+        value.push({ text: String(text).trim(), clusterIds: [...new Set(ids as number[])], commentCount: commentCount as number })
+      })
+
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value }
+    }
+  }
+}
+
+/**
+ * Indices into the numbered comment list the model was shown
+ */
+export function storyIndicesSchema(commentCount: number): ResponseSchema<number[]> {
+  return {
+    task: 'stories',
+    json: true,
+    format: '{"story_indices": [number]}',
+    validate(data) {
+      if (!isRecord(data) || !Array.isArray(data.story_indices)) {
+        return { ok: false, errors: ['Expected an object with a "story_indices" array'] }
+      }
+
+      const invalid = data.story_indices.filter(i => !isNonNegativeInteger(i) || i >= commentCount)
+      if (invalid.length > 0) {
+        return { ok: false, errors: [`story_indices ${JSON.stringify(invalid)} are outside 0-${commentCount - 1}`] }
+      }
+
+      return { ok: true, value: [...new Set(data.story_indices as number[])] }
+    }
+  }
+}
+
+/**
+ * Indices of the comments the model judged to be spam
+ */
+export function spamIndicesSchema(commentCount: number): ResponseSchema<number[]> {
+  return {
+    task: 'spam',
+    json: true,
+    format: '{"spam_indices": [number]}',
+    validate(data) {
+      if (!isRecord(data) || !Array.isArray(data.spam_indices)) {
+        return { ok: false, errors: ['Expected an object with a "spam_indices" array'] }
+      }
+
+      const invalid = data.spam_indices.filter(i => !isNonNegativeInteger(i) || i >= commentCount)
+      if (invalid.length > 0) {
+        return { ok: false, errors: [`spam_indices ${JSON.stringify(invalid)} are outside 0-${commentCount - 1}`] }
+      }
+
+      return { ok: true, value: [...new Set(data.spam_indices as number[])] }
+    }
+  }
+}
+
+export interface EmotionLabelResponse {
+  index: number
+  polarity: Polarity
+  emotions: Emotion[]
+}
+
+/**
+ * A polarity and up to two emotions for comments in the numbered list;
+ * comments left out keep their existing labels
+ */
+export function emotionLabelsSchema(commentCount: number): ResponseSchema<EmotionLabelResponse[]> {
+  const polarities = new Set<unknown>(POLARITIES)
+  const emotions = new Set<unknown>(EMOTIONS)
+
+  return {
+    task: 'emotions',
+    json: true,
+    format: `{"labels": [{"index": number, "polarity": "${POLARITIES.join('" | "')}", "emotions": ["${EMOTIONS.join('" | "')}"]}]}`,
+    validate(data) {
+      if (!isRecord(data) || !Array.isArray(data.labels)) {
+        return { ok: false, errors: ['Expected an object with a "labels" array'] }
+      }
+
+      const errors: string[] = []
+      const seen = new Set<number>()
+      const value: EmotionLabelResponse[] = []
+
+      data.labels.forEach((entry, i) => {
+        const at = `labels[${i}]`
+        if (!isRecord(entry)) {
+          errors.push(`${at} must be an object`)
+          return
+        }
+        const { index, polarity, emotions: labels } = entry
+
+        if (!isNonNegativeInteger(index) || index >= commentCount) {
+          errors.push(`${at}.index ${JSON.stringify(index)} is outside 0-${commentCount - 1}`)
+        } else if (seen.has(index)) {
+          errors.push(`${at}.index ${index} is labeled more than once`)
+        }
+        if (!polarities.has(polarity)) {
+          errors.push(`${at}.polarity must be one of ${POLARITIES.join(', ')}`)
+        }
+        if (!Array.isArray(labels) || labels.length > 2 || labels.some(e => !emotions.has(e))) {
+          errors.push(`${at}.emotions must list at most two of ${EMOTIONS.join(', ')}`)
+        }
+
+        if (isNonNegativeInteger(index)) seen.add(index)
+        value.push({ index: index as number, polarity: polarity as Polarity, emotions: [...new Set(labels as Emotion[])] })
+      })
+
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value }
+    }
+  }
+}
+
+export interface AnswerResponse {
+  // False when the comments don't address the question; sentences are then empty
+  answerable: boolean
+  sentences: { text: string; sources: number[] }[]
+}
+
+/**
+ * An answer whose every sentence cites at least one of the numbered comments (1-based)
+ */
+export function answerSchema(sourceCount: number): ResponseSchema<AnswerResponse> {
+  return {
+    task: 'answer',
+    json: true,
+    format: '{"answerable": boolean, "sentences": [{"text": "string", "sources": [number]}]}',
+    validate(data) {
+      if (!isRecord(data) || typeof data.answerable !== 'boolean' || !Array.isArray(data.sentences)) {
+        return { ok: false, errors: ['Expected an object with an "answerable" boolean and a "sentences" array'] }
+      }
+      if (!data.answerable) return { ok: true, value: { answerable: false, sentences: [] } }
+      if (data.sentences.length === 0) {
+        return { ok: false, errors: ['"sentences" must contain at least one sentence when answerable is true'] }
+      }
+
+      const errors: string[] = []
+      const sentences: AnswerResponse['sentences'] = []
+
+      data.sentences.forEach((entry, i) => {
+        const at = `sentences[${i}]`
+        if (!isRecord(entry)) {
+          errors.push(`${at} must be an object`)
+          return
+        }
+        const { text, sources } = entry
+
+        if (typeof text !== 'string' || !text.trim()) {
+          errors.push(`${at}.text must be a non-empty string`)
+        }
+        if (!Array.isArray(sources) || sources.length === 0) {
+          errors.push(`${at}.sources must cite at least one comment`)
+        } else {
+          const unknown = sources.filter(s => !isNonNegativeInteger(s) || s < 1 || s > sourceCount)
+          if (unknown.length > 0) {
+            errors.push(`${at}.sources ${JSON.stringify(unknown)} are outside 1-${sourceCount}`)
+          }
+        }
+
+        sentences.push({ text: String(text).trim(), sources: [...new Set(sources as number[])] })
+      })
+
+      return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { answerable: true, sentences } }
+    }
+  }
+}
+
+/**
+ * Plain prose: anything non-empty that isn't a JSON blob
+ */
+export const proseSchema: ResponseSchema<string> = {
+  task: 'summary',
+  json: false,
+  format: 'a plain-text paragraph',
+  validate(data) {
+    if (typeof data !== 'string' || !data.trim()) {
+      return { ok: false, errors: ['The summary is empty'] }
+    }
+    if (/^\s*[[{]/.test(data)) {
+      return { ok: false, errors: ['The summary must be prose, not JSON'] }
+    }
+    return { ok: true, value: data.trim() }
+  }
+}
+
+function check<T>(schema: ResponseSchema<T>, content: string | null): Validation<T> {
+  if (!content) return { ok: false, errors: ['The response was empty'] }
+  if (!schema.json) return schema.validate(content)
+
+  try {
+    return schema.validate(JSON.parse(content))
+  } catch (error) {
+    return { ok: false, errors: [`The response is not valid JSON (${(error as Error).message})`] }
+  }
+}
+
+/**
+ * Ask for a response and validate it. On failure, send the errors back once
+ * and ask for a corrected reply; throws LLMResponseError if that fails too.
+ */
+export async function completeWithSchema<T>(
+  provider: LLMProvider,
+  request: Omit<ChatRequest, 'task' | 'json'>,
+  schema: ResponseSchema<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  const messages = [...request.messages]
+  let content: string | null = null
+  let result: Validation<T> = { ok: false, errors: [] }
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    content = await provider.complete({ ...request, task: schema.task, json: schema.json, messages }, signal)
+    result = check(schema, content)
+    if (result.ok) return result.value
+
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your response was invalid:\n${result.errors.map(e => `- ${e}`).join('\n')}\n\nReply again with only the corrected response, as ${schema.format}.`
+      }
+    )
+  }
+
+  throw new LLMResponseError(schema.task, result.ok ? [] : result.errors, content)
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { AnalysisError, AnalysisSnapshot, AnalysisStage, runAnalysis } from './pipeline'
+import { createFileSource } from './sources'
+import { parseCommentsCSV } from './commentFile'
+import { localEmbeddingProvider } from './embeddingProviders'
+import { LLMProvider, getLLMProvider } from './llmProvider'
+import { loadSettings } from '../config/settings'
+
+const CSV = `text
+the guitar solo is insane
+that guitar solo gave me chills
+this reminds me of my childhood
+brings back childhood memories
+best video ever made
+drums are so good in this
+`
+
+const sourceOf = (csv: string) =>
+  createFileSource({ id: 'upload', name: 'upload.csv', uploadedAt: '', comments: parseCommentsCSV(csv) })
+
+const options = {
+  embeddingProvider: localEmbeddingProvider,
+  llmProvider: getLLMProvider({ ...loadSettings().llm, backend: 'mock' }),
+}
+
+test('runs the whole analysis outside the browser', async () => {
+  const result = await runAnalysis(sourceOf(CSV), options)
+
+  assert.equal(result.comments.length, 6)
+  assert.equal(result.filteredOut.length, 0)
+  assert.ok(result.coarse.clusters.length > 0)
+  assert.equal(result.clusterNames.length, result.coarse.clusters.length)
+  // Every comment lands in exactly one theme
+  const themed = result.coarse.clusters.flatMap((c) => c.commentIndices).sort((a, b) => a - b)
+  assert.deepEqual(themed, [0, 1, 2, 3, 4, 5])
+  // Quotes are looked up by cluster id and come from that cluster
+  for (const { clusters, quotes } of [{ ...result.fine, quotes: result.fineQuotes }, { ...result.coarse, quotes: result.coarseQuotes }]) {
+    for (const cluster of clusters) {
+      assert.ok(quotes[cluster.id].length > 0)
+      assert.ok(quotes[cluster.id].every((i) => cluster.commentIndices.includes(i)))
+    }
+  }
+})
+
+test('reports stages in order and streams comments before clusters', async () => {
+  const stages: AnalysisStage[] = []
+  const snapshots: AnalysisSnapshot[] = []
+  await runAnalysis(sourceOf(CSV), options, {
+    onProgress: ({ stage }) => { if (stages.at(-1) !== stage) stages.push(stage) },
+    onSnapshot: (snapshot) => snapshots.push(snapshot),
+  })
+
+  assert.equal(stages[0], 'fetching-video')
+  assert.equal(stages.at(-1), 'done')
+  assert.ok(stages.indexOf('embedding') < stages.indexOf('clustering'))
+  assert.ok(stages.indexOf('clustering') < stages.indexOf('naming'))
+
+  const firstComments = snapshots.findIndex((s) => (s.comments?.length ?? 0) > 0)
+  const firstClusters = snapshots.findIndex((s) => s.coarse !== undefined)
+  assert.ok(firstComments !== -1 && firstComments < firstClusters)
+})
+
+test('streams LLM failures as they happen', async () => {
+  const broken: LLMProvider = { backend: 'mock', complete: async () => 'not json' }
+  const snapshots: AnalysisSnapshot[] = []
+  const result = await runAnalysis(sourceOf(CSV), { ...options, llmProvider: broken }, {
+    onSnapshot: (snapshot) => snapshots.push(snapshot),
+  })
+
+  assert.ok(result.llmFailures.some((f) => f.task === 'naming'))
+  // The naming failure is visible before the summary stages finish
+  const firstFailure = snapshots.findIndex((s) => (s.llmFailures?.length ?? 0) > 0)
+  const firstSummary = snapshots.findIndex((s) => s.proseSummary !== undefined)
+  assert.ok(firstFailure !== -1 && firstFailure < firstSummary)
+})
+
+test("counts a claim's comments from the clusters it cites, not the model's figure", async () => {
+  const mock = getLLMProvider({ ...loadSettings().llm, backend: 'mock' })
+  // Cites only the first cluster in the prompt and overstates its size
+  const overstating: LLMProvider = {
+    backend: 'mock',
+    complete: async (request, signal) => {
+      if (request.task !== 'claims') return mock.complete(request, signal)
+      const cited = Number(/Cluster (\d+)/.exec(request.messages[1].content)![1])
+      return JSON.stringify({ claims: [{ text: 'Most people love the solo', clusterIds: [cited], commentCount: 999 }] })
+    },
+  }
+
+  const result = await runAnalysis(sourceOf(CSV), { ...options, llmProvider: overstating })
+
+  const [claim] = result.claims
+  const cited = result.coarse.clusters.find((c) => c.id === claim.clusterIds[0])!
+  assert.equal(claim.statedCount, 999)
+  assert.equal(claim.commentCount, cited.commentIndices.length)
+})
+
+test('rejects a source without comments', async () => {
+  await assert.rejects(
+    runAnalysis(sourceOf('text\n'), options),
+    (err) => err instanceof AnalysisError && err.reason === 'noComments'
+  )
+})
+
+test("stops with the signal's reason when aborted", async () => {
+  const controller = new AbortController()
+  const reason = new Error('cancelled')
+  controller.abort(reason)
+
+  await assert.rejects(runAnalysis(sourceOf(CSV), options, { signal: controller.signal }), reason)
+})
@@ -0,0 +1,424 @@
+import { VideoDetails, Comment, CommentThread, flattenThreads } from './youtube'
+import { CommentSource } from './sources'
+import { embedComments, CommentWithEmbedding, ReplyMode } from './embeddings'
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProviders'
+import { groundSummary, GroundedSentence } from './grounding'
+import { LLMProvider } from './llmProvider'
+import { ClusteringMethod, SpamFilterSettings, loadSettings } from '../config/settings'
+import { assignToClusters, findMinorities, findOutliers, Cluster, ClusterResult, Outlier } from './clustering'
+import { clusterInBackground } from './backgroundClustering'
+import { extractClusterKeywords, Keyword } from './keywords'
+import { selectRepresentatives } from './representatives'
+import { likeWeight } from './weights'
+import { findDuplicateGroups, DuplicateGroup } from './duplicates'
+import { filterSpam, findRepeatedAuthorComments, FilteredComment } from './spamFilter'
+import { createSentimentLabeler } from './emotions'
+import {
+  generateClusterNames,
+  generateClaims,
+  generateProseSummary,
+  detectStoryComments,
+  classifySpamComments,
+  classifyEmotions,
+  ClusterName,
+  Claim,
+  StoryComment,
+  LLMFailure
+} from './llm'
+
+export type AnalysisStage =
+  | 'fetching-video'
+  | 'fetching-comments'
+  | 'embedding'
+  | 'clustering'
+  | 'emotions'
+  | 'naming'
+  | 'claims'
+  | 'grounding'
+  | 'stories'
+  | 'done'
+
+export interface AnalysisProgress {
+  stage: AnalysisStage
+  done: number
+  total: number
+}
+
+export interface AnalysisOptions {
+  maxComments?: number
+  replyMode?: ReplyMode
+  embeddingProvider?: EmbeddingProvider
+  clusteringMethod?: ClusteringMethod
+  // Clustering seed; defaults to the source id so the same video always clusters the same way
+  seed?: number | string
+  // Weight comments by likes (log-scaled) in centroids and in the summary's context
+  weightByLikes?: boolean
+  // Keep every copy of a copypasta as its own voice instead of only the canonical one
+  countDuplicates?: boolean
+  // Which spam rules run before analysis; defaults to the saved settings
+  spamFilter?: SpamFilterSettings
+  // Have the language model relabel sentiment and emotions after the embedding-based pass
+  refineEmotions?: boolean
+  llmProvider?: LLMProvider
+}
+
+export interface AnalysisControls {
+  signal?: AbortSignal
+  onProgress?: (progress: AnalysisProgress) => void
+  // The result so far, each time a page or stage adds to it
+  onSnapshot?: (snapshot: AnalysisSnapshot) => void
+}
+
+/**
+ * Everything a view needs to render an analysis. Plain data only, so it can be
+ * cached, sent across a worker boundary or written to disk by a CLI.
+ */
+export interface AnalysisResult {
+  sourceId: string
+  video: VideoDetails
+  threads: CommentThread[]
+  comments: CommentWithEmbedding[]
+  fine: ClusterResult
+  coarse: ClusterResult
+  // Most distinctive words and phrases per cluster, indexed by cluster id
+  fineKeywords: Keyword[][]
+  coarseKeywords: Keyword[][]
+  // Representative comment indices per cluster (medoid first), indexed by cluster id
+  fineQuotes: number[][]
+  coarseQuotes: number[][]
+  // Members far from their theme's centroid, indexed by theme id, farthest first
+  minorities: number[][]
+  // Comments poorly matched to any cluster, worst first
+  outliers: Outlier[]
+  clusterNames: ClusterName[]
+  proseSummary: string
+  // The summary split into sentences, each with its support among the comments
+  groundedSummary: GroundedSentence[]
+  claims: Claim[]
+  stories: StoryComment[]
+  // Comments left out of the analysis as spam, bots or self-promotion, with why
+  filteredOut: FilteredComment[]
+  // Comments left out because they couldn't be embedded (no usable words, or a failed request)
+  unembedded: number
+  // Replies the source couldn't fetch (API errors or rate limits, after retrying)
+  skippedReplies: number
+  // Copies of the same comment (always found; removed from comments unless counted)
+  duplicates: DuplicateGroup[]
+  // LLM tasks that fell back to placeholder output
+  llmFailures: LLMFailure[]
+}
+
+/**
+ * A result in progress: video and comments first, clusters (provisional until
+ * fetching ends), then the LLM-written parts as each stage finishes
+ */
+export type AnalysisSnapshot = Pick<AnalysisResult, 'sourceId' | 'video'> & Partial<AnalysisResult>
+
+export type AnalysisErrorReason = 'noComments' | 'videoNotFound' | 'generic'
+
+export class AnalysisError extends Error {
+  constructor(public reason: AnalysisErrorReason, message: string) {
+    super(message)
+    this.name = 'AnalysisError'
+  }
+}
+
+const DEFAULT_MAX_COMMENTS = 200
+
+// Comments needed before provisional clusters are shown
+const PROVISIONAL_CLUSTER_SIZE = 100
+
+// Representative quotes kept per cluster; also the sample each theme is named from
+const QUOTE_COUNT = 10
+
+/**
+ * Replace each claim's comment count with the number of distinct comments
+ * in the clusters it cites (the model's figure stays in statedCount)
+ */
+function recountClaims(claims: Claim[], clusters: Cluster[]): Claim[] {
+  return claims.map((claim) => {
+    const indices = new Set(
+      clusters.filter((c) => claim.clusterIds.includes(c.id)).flatMap((c) => c.commentIndices)
+    )
+    return { ...claim, commentCount: indices.size }
+  })
+}
+
+/**
+ * Run the full analysis: fetch → embed → cluster → name → summarize → ground → stories.
+ * Throws AnalysisError for expected failures and the signal's reason when aborted.
+ */
+export async function runAnalysis(
+  source: CommentSource,
+  options: AnalysisOptions = {},
+  controls: AnalysisControls = {}
+): Promise<AnalysisResult> {
+  const {
+    maxComments = DEFAULT_MAX_COMMENTS,
+    replyMode = 'fold',
+    embeddingProvider,
+    clusteringMethod,
+    seed = source.id,
+    weightByLikes = false,
+    countDuplicates = false,
+    spamFilter = loadSettings().spamFilter,
+    refineEmotions = false,
+    llmProvider
+  } = options
+  const { signal } = controls
+  const report = (stage: AnalysisStage, done: number, total: number) => {
+    signal?.throwIfAborted()
+    controls.onProgress?.({ stage, done, total })
+  }
+
+  report('fetching-video', 0, 1)
+  const video = await source.fetchDetails(signal)
+  if (!video) {
+    throw new AnalysisError('videoNotFound', `No video or upload found for "${source.id}"`)
+  }
+
+  const snapshot: AnalysisSnapshot = { sourceId: source.id, video, threads: [], comments: [] }
+  const emit = (patch: Partial<AnalysisResult>) => {
+    signal?.throwIfAborted()
+    Object.assign(snapshot, patch)
+    controls.onSnapshot?.({ ...snapshot })
+  }
+  emit({})
+
+  // Failed LLM tasks stream with the rest, so the notice shows while later stages run
+  const llmFailures: LLMFailure[] = []
+  const llmOptions = {
+    provider: llmProvider,
+    signal,
+    onFailure: (failure: LLMFailure) => {
+      llmFailures.push(failure)
+      emit({ llmFailures: [...llmFailures] })
+    }
+  }
+
+  // Pages are embedded while later pages are still being fetched. Until the
+  // last page is in, clusters are provisional: a first clustering once enough
+  // comments are in, then new comments join their nearest centroid.
+  // This caps threads; the comments analyzed are capped separately below
+  const threadLimit = Math.min(video.commentCountRaw, maxComments)
+  const threads: CommentThread[] = []
+  let comments: CommentWithEmbedding[] = []
+  const filteredOut: FilteredComment[] = []
+  let provisional: { fine: ClusterResult; coarse: ClusterResult } | null = null
+  let fetching = true
+  let submittedVoices = 0
+  let unembedded = 0
+  let skippedReplies = 0
+
+  // Voices a list of comments turns into once embedded (replies may fold into parents)
+  const countVoices = (list: Comment[]) => {
+    if (replyMode === 'separate') return list.length
+    const ids = new Set(list.map((c) => c.id))
+    return list.filter((c) => !c.parentId || !ids.has(c.parentId)).length
+  }
+
+  // At most maxComments voices are embedded and clustered: in 'separate' mode
+  // replies would otherwise make the sample several times larger
+  const capToSample = (list: Comment[]) => {
+    const room = maxComments - submittedVoices
+    if (countVoices(list) <= room) return list
+    const ids = new Set(list.map((c) => c.id))
+    const taken = new Set<string>()
+    return list.filter((c) => {
+      if (replyMode === 'fold' && c.parentId && ids.has(c.parentId)) return taken.has(c.parentId)
+      if (taken.size >= room) return false
+      taken.add(c.id)
+      return true
+    })
+  }
+
+  const labelSentiment = createSentimentLabeler({ provider: embeddingProvider, signal })
+
+  const weightsFor = (list: CommentWithEmbedding[]) =>
+    weightByLikes ? list.map((c) => likeWeight(c.likeCount)) : undefined
+  const { duplicate: duplicateSimilarity } = (embeddingProvider ?? getEmbeddingProvider()).similarity
+  // Indexed by cluster id, like the keywords, whatever order the clusters come in
+  const quotesFor = (result: ClusterResult) => {
+    const quotes: number[][] = []
+    for (const c of result.clusters) {
+      quotes[c.id] = selectRepresentatives(c, comments, { count: QUOTE_COUNT, duplicateSimilarity })
+    }
+    return quotes
+  }
+  const describe = (levels: { fine: ClusterResult; coarse: ClusterResult }) => ({
+    ...levels,
+    fineKeywords: extractClusterKeywords(levels.fine.clusters, comments),
+    coarseKeywords: extractClusterKeywords(levels.coarse.clusters, comments),
+    fineQuotes: quotesFor(levels.fine),
+    coarseQuotes: quotesFor(levels.coarse),
+  })
+
+  const embedPage = async (kept: Comment[]) => {
+    if (spamFilter.llmClassifier && kept.length > 0) {
+      const flagged = new Set(await classifySpamComments(kept.map((c) => c.text), llmOptions))
+      if (flagged.size > 0) {
+        const remaining = kept.filter((_, i) => !flagged.has(i))
+        filteredOut.push(...kept.filter((_, i) => flagged.has(i)).map((comment) => ({ comment, reasons: ['classifier' as const] })))
+        submittedVoices += countVoices(remaining) - countVoices(kept)
+        kept = remaining
+      }
+    }
+
+    const embedded = await embedComments(kept, { replyMode, provider: embeddingProvider, signal })
+    const pageComments = embedded.filter((c) => c.embedding.length > 0)
+    unembedded += embedded.length - pageComments.length
+    const sentiments = await labelSentiment(pageComments)
+    const start = comments.length
+    comments.push(...pageComments.map((c, i) => ({ ...c, sentiment: sentiments[i] })))
+    if (!fetching) report('embedding', comments.length, submittedVoices)
+
+    const embeddings = comments.map((c) => c.embedding)
+    const weights = weightsFor(comments)
+    if (provisional) {
+      provisional = {
+        fine: assignToClusters(provisional.fine, embeddings, start, weights),
+        coarse: assignToClusters(provisional.coarse, embeddings, start, weights),
+      }
+    } else if (fetching && comments.length >= PROVISIONAL_CLUSTER_SIZE) {
+      provisional = await clusterInBackground(embeddings, { method: clusteringMethod, seed, weights, signal })
+    }
+    emit({ comments: [...comments], filteredOut: [...filteredOut], unembedded, ...(provisional && describe(provisional)) })
+  }
+
+  let embedding: Promise<void> = Promise.resolve()
+  report('fetching-comments', 0, threadLimit)
+  await source.fetchThreads(threadLimit, {
+    signal,
+    onPage: (page) => {
+      threads.push(...page)
+      // Rules that need only the comment's text run right away, before anything is embedded
+      const { kept: clean, filteredOut: caught } = filterSpam(flattenThreads(page), spamFilter)
+      filteredOut.push(...caught)
+      const kept = capToSample(clean)
+      submittedVoices += countVoices(kept)
+      emit({ threads: [...threads], filteredOut: [...filteredOut] })
+      embedding = embedding.then(() => embedPage(kept))
+      // Failures surface when the chain is awaited below
+      embedding.catch(() => {})
+    },
+    onProgress: (fetched) => report('fetching-comments', fetched, threadLimit),
+    onRepliesSkipped: (count) => {
+      skippedReplies += count
+      emit({ skippedReplies })
+    }
+  })
+  if (threads.length === 0) {
+    throw new AnalysisError('noComments', 'No comments available')
+  }
+
+  fetching = false
+  report('embedding', comments.length, submittedVoices)
+  await embedding
+  if (comments.length === 0) {
+    throw new AnalysisError('generic', filteredOut.length > 0 ? 'Every comment was filtered out as spam' : 'No comments could be embedded')
+  }
+
+  // Authors posting over and over can only be told apart once the whole sample is in
+  const repeated = findRepeatedAuthorComments(flattenThreads(threads), spamFilter)
+  if (repeated.size > 0) {
+    filteredOut.push(
+      ...comments.filter((c) => repeated.has(c.id)).map((comment) => ({ comment, reasons: ['repeatedAuthor' as const] }))
+    )
+    comments = comments.filter((c) => !repeated.has(c.id))
+  }
+  if (comments.length === 0) {
+    throw new AnalysisError('generic', 'Every comment was filtered out as spam')
+  }
+
+  // Copypasta would inflate whichever cluster it lands in: unless asked
+  // otherwise, only each group's canonical copy goes on to be clustered
+  const duplicates = findDuplicateGroups(comments, { provider: embeddingProvider })
+  if (!countDuplicates) {
+    const repeats = new Set(duplicates.flatMap((g) => g.memberIds.filter((id) => id !== g.canonicalId)))
+    comments = comments.filter((c) => !repeats.has(c.id))
+  }
+  emit({ duplicates, filteredOut: [...filteredOut] })
+
+  // Everything is in: cluster once more from scratch, and only then spend LLM calls
+  report('clustering', 0, 100)
+  const { fine, coarse } = await clusterInBackground(comments.map((c) => c.embedding), {
+    method: clusteringMethod,
+    seed,
+    weights: weightsFor(comments),
+    signal,
+    onProgress: (fraction) => report('clustering', Math.round(fraction * 100), 100)
+  })
+  const { fineKeywords, coarseKeywords, fineQuotes, coarseQuotes } = describe({ fine, coarse })
+  const embeddings = comments.map((c) => c.embedding)
+  const minorities = findMinorities(coarse, embeddings)
+  const outliers = findOutliers(fine, embeddings)
+  emit({ comments: [...comments], fine, coarse, fineKeywords, coarseKeywords, fineQuotes, coarseQuotes, minorities, outliers })
+
+  if (refineEmotions) {
+    report('emotions', 0, 1)
+    for (const { index, polarity, emotions } of await classifyEmotions(comments.map((c) => c.text), llmOptions)) {
+      comments[index] = { ...comments[index], sentiment: { polarity, emotions, source: 'model' } }
+    }
+    emit({ comments: [...comments] })
+  }
+
+  report('naming', 0, 1)
+  const clustersForNaming = coarse.clusters.map((c) => ({
+    id: c.id,
+    comments: c.commentIndices.map((i) => comments[i]?.text || '').filter(Boolean),
+    quotes: coarseQuotes[c.id].map((i) => comments[i].text),
+    keywords: coarseKeywords[c.id]?.map((k) => k.term) ?? [],
+  }))
+  const clusterNames = await generateClusterNames(clustersForNaming, llmOptions)
+  emit({ clusterNames })
+
+  report('claims', 0, 1)
+  const clustersForSummary = coarse.clusters.map((c) => ({
+    id: c.id,
+    name: clusterNames.find((n) => n.clusterId === c.id)?.name || 'unnamed',
+    comments: c.commentIndices.map((idx) => comments[idx]?.text || '').filter(Boolean),
+    confidence: c.confidence,
+    likes: weightByLikes ? c.commentIndices.reduce((sum, idx) => sum + comments[idx].likeCount, 0) : undefined,
+  }))
+  const proseSummary = await generateProseSummary(clustersForSummary, video.title, llmOptions)
+  const claims = recountClaims(await generateClaims(clustersForSummary, llmOptions), coarse.clusters)
+  emit({ proseSummary, claims })
+
+  report('grounding', 0, 1)
+  const groundedSummary = await groundSummary(proseSummary, comments, { provider: embeddingProvider, signal })
+  emit({ groundedSummary })
+
+  report('stories', 0, 1)
+  const commentsForStories = comments.map((c) => ({
+    text: c.text,
+    authorDisplayName: c.authorName,
+    authorProfileImageUrl: c.authorProfileImageUrl,
+  }))
+  const stories = await detectStoryComments(commentsForStories, llmOptions)
+
+  report('done', 1, 1)
+  return {
+    sourceId: source.id,
+    video,
+    threads,
+    comments,
+    fine,
+    coarse,
+    fineKeywords,
+    coarseKeywords,
+    fineQuotes,
+    coarseQuotes,
+    minorities,
+    outliers,
+    clusterNames,
+    proseSummary,
+    groundedSummary,
+    claims,
+    stories,
+    filteredOut,
+    unembedded,
+    skippedReplies,
+    duplicates,
+    llmFailures,
+  }
+}
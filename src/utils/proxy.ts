@@ -0,0 +1,27 @@
+/**
+ * Optional server-side proxy (see server/index.ts). When configured, YouTube and
+ * OpenAI calls go through it and no API keys are needed in the browser.
+ */
+export const API_PROXY_URL = (import.meta.env?.VITE_API_PROXY_URL || '').replace(/\/$/, '')
+
+/**
+ * POST JSON to a proxy route. Errors carry the HTTP status so callers
+ * can treat them like SDK errors (e.g. retry on 429).
+ */
+export async function postToProxy<T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(`${API_PROXY_URL}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal
+  })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw Object.assign(new Error(data?.error?.message || `Proxy request failed (${response.status})`), {
+      status: response.status
+    })
+  }
+
+  return data as T
+}
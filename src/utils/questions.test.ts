@@ -0,0 +1,74 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { askComments } from './questions'
+import { EmbeddingProvider, localEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding } from './embeddings'
+import { ChatRequest, LLMProvider } from './llmProvider'
+
+// One axis per topic, so similarities are exact
+const topic = (text: string) => (text.includes('tour') ? [1, 0] : [0, 1])
+
+const embeddingProvider: EmbeddingProvider = { ...localEmbeddingProvider, model: 'questions-test', embed: async (texts) => texts.map(topic) }
+
+const comment = (id: string, text: string): CommentWithEmbedding => ({
+  id,
+  text,
+  authorName: 'someone',
+  authorProfileImageUrl: '',
+  likeCount: 0,
+  publishedAt: '',
+  replyCount: 0,
+  embedding: topic(text)
+})
+
+const comments = [
+  comment('a', 'lovely melody'),
+  comment('b', 'saw them on tour in Berlin'),
+  comment('c', 'the tour sold out in minutes'),
+]
+
+/**
+ * An LLM that always gives the same reply, recording what it was asked
+ */
+function replying(content: string | null) {
+  const requests: ChatRequest[] = []
+  const llmProvider: LLMProvider = { backend: 'mock', complete: async (request) => { requests.push(request); return content } }
+  return { llmProvider, requests }
+}
+
+test('answers from the retrieved comments, mapping citations to comment ids', async () => {
+  const { llmProvider, requests } = replying(JSON.stringify({
+    answerable: true,
+    sentences: [{ text: 'People saw the tour in Berlin.', sources: [1] }, { text: 'It sold out fast.', sources: [2, 1] }]
+  }))
+
+  const answer = await askComments('how was the tour?', comments, { embeddingProvider, llmProvider })
+
+  assert.equal(answer.status, 'answered')
+  assert.deepEqual(answer.retrieved.map(r => r.comment.id), ['b', 'c'])
+  assert.deepEqual(answer.sentences.map(s => s.commentIds), [['b'], ['c', 'b']])
+  // Only the relevant comments reach the model
+  assert.ok(!requests[0].messages[1].content.includes('lovely melody'))
+})
+
+test('skips the model when no comment is close to the question', async () => {
+  const { llmProvider, requests } = replying(null)
+
+  const answer = await askComments('how was the tour?', [comments[0]], { embeddingProvider, llmProvider })
+
+  assert.equal(answer.status, 'noRelevantComments')
+  assert.equal(requests.length, 0)
+})
+
+test('reports an unanswerable question and a failed model differently', async () => {
+  const unanswerable = await askComments('how was the tour?', comments, {
+    embeddingProvider,
+    llmProvider: replying(JSON.stringify({ answerable: false, sentences: [] })).llmProvider
+  })
+  assert.equal(unanswerable.status, 'noRelevantComments')
+
+  const failed = await askComments('how was the tour?', comments, { embeddingProvider, llmProvider: replying('nonsense').llmProvider })
+  assert.equal(failed.status, 'failed')
+  assert.equal(failed.failure?.task, 'answer')
+  assert.equal(failed.retrieved.length, 2)
+})
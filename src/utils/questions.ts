@@ -0,0 +1,89 @@
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding, getEmbeddings } from './embeddings'
+import { LLMProvider } from './llmProvider'
+import { answerFromComments, LLMFailure } from './llm'
+import { SimilarComment, rankBySimilarity } from './search'
+
+export type RetrievedComment = SimilarComment
+
+export interface AnswerSentence {
+  text: string
+  // Ids of the comments the sentence rests on
+  commentIds: string[]
+}
+
+/**
+ * - 'answered': sentences cite the retrieved comments
+ * - 'noRelevantComments': nothing close enough to the question, or the model found nothing that addresses it
+ * - 'failed': the model couldn't answer; the retrieved comments are still given
+ */
+export type AnswerStatus = 'answered' | 'noRelevantComments' | 'failed'
+
+export interface Answer {
+  question: string
+  status: AnswerStatus
+  sentences: AnswerSentence[]
+  // The comments the model was shown, closest first
+  retrieved: RetrievedComment[]
+  failure?: LLMFailure
+}
+
+export interface AskOptions {
+  embeddingProvider?: EmbeddingProvider
+  llmProvider?: LLMProvider
+  signal?: AbortSignal
+}
+
+// Comments handed to the model per question
+const RETRIEVE_COUNT = 15
+
+/**
+ * The comments closest to a question, closest first, leaving out any too far
+ * from it to be relevant
+ */
+export async function retrieveComments(
+  question: string,
+  comments: CommentWithEmbedding[],
+  options: AskOptions = {}
+): Promise<RetrievedComment[]> {
+  const provider = options.embeddingProvider ?? getEmbeddingProvider()
+  const [embedding] = await getEmbeddings([question], { provider, signal: options.signal })
+  if (!embedding || embedding.length === 0) return []
+
+  return rankBySimilarity(embedding, comments, { threshold: provider.similarity.relevant, limit: RETRIEVE_COUNT })
+}
+
+/**
+ * Answer a question from the comment section: retrieve the closest comments,
+ * then have the model answer from those alone, citing them sentence by sentence
+ */
+export async function askComments(
+  question: string,
+  comments: CommentWithEmbedding[],
+  options: AskOptions = {}
+): Promise<Answer> {
+  const retrieved = await retrieveComments(question, comments, options)
+  if (retrieved.length === 0) {
+    return { question, status: 'noRelevantComments', sentences: [], retrieved }
+  }
+
+  let failure: LLMFailure | undefined
+  const response = await answerFromComments(question, retrieved.map(r => r.comment.text), {
+    provider: options.llmProvider,
+    signal: options.signal,
+    onFailure: (f) => { failure = f }
+  })
+
+  if (!response) return { question, status: 'failed', sentences: [], retrieved, failure }
+  if (!response.answerable) return { question, status: 'noRelevantComments', sentences: [], retrieved }
+
+  return {
+    question,
+    status: 'answered',
+    sentences: response.sentences.map(s => ({
+      text: s.text,
+      commentIds: s.sources.map(n => retrieved[n - 1].comment.id)
+    })),
+    retrieved
+  }
+}
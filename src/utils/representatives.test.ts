@@ -0,0 +1,44 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { selectRepresentatives } from './representatives'
+import { Cluster } from './clustering'
+
+const cluster: Cluster = { id: 0, commentIndices: [0, 1, 2, 3], centroid: [1, 0, 0], confidence: 1 }
+
+const comment = (text: string, embedding: number[], likeCount = 0) => ({ text, embedding, likeCount })
+
+test('puts the medoid first, then blends centrality and likes', () => {
+  const comments = [
+    comment('off to the side', [0.6, 0.8, 0], 0),
+    comment('right at the centre', [1, 0, 0]),
+    comment('near the centre', [0.9, 0.44, 0]),
+    comment('further out but loved', [0.7, 0, 0.71], 5000),
+  ]
+
+  assert.deepEqual(selectRepresentatives(cluster, comments, { duplicateSimilarity: 0.99, likeWeight: 0 }), [1, 2, 3])
+  assert.deepEqual(selectRepresentatives(cluster, comments, { duplicateSimilarity: 0.99, likeWeight: 0.8 }), [1, 3, 2])
+})
+
+test('skips quotes at or above the duplicate cut-off', () => {
+  const comments = [
+    comment('same point', [1, 0, 0]),
+    comment('same point, other words', [0.99, 0.14, 0]),
+    comment('a different point', [0.7, 0, 0.71]),
+    comment('another one', [0.6, 0.8, 0]),
+  ]
+
+  // A loose cut-off (like the local provider's) treats the second as a copy of the first
+  assert.deepEqual(selectRepresentatives(cluster, comments, { duplicateSimilarity: 0.8, count: 2 }), [0, 2])
+  assert.deepEqual(selectRepresentatives(cluster, comments, { duplicateSimilarity: 0.999, count: 2 }), [0, 1])
+})
+
+test('skips texts that are the same once cleaned, whatever their embeddings', () => {
+  const comments = [
+    comment('So good!!', [1, 0, 0]),
+    comment('so good', [0.8, 0.6, 0]),
+    comment('not the same', [0.8, 0, 0.6]),
+  ]
+  const three: Cluster = { ...cluster, commentIndices: [0, 1, 2] }
+
+  assert.deepEqual(selectRepresentatives(three, comments, { duplicateSimilarity: 1.1 }), [0, 2])
+})
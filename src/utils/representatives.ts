@@ -0,0 +1,64 @@
+import { Cluster, rankByCentrality } from './clustering'
+import { cosineSimilarity } from './vectors'
+import { cleanText } from './wordProcessor'
+
+export interface RepresentativeOptions {
+  // Quotes at least this similar to one already picked count as the same quote;
+  // the embedding provider's duplicate cut-off
+  duplicateSimilarity: number
+  // Quotes kept per cluster
+  count?: number
+  // Share of the ranking that comes from likes rather than centrality (0..1)
+  likeWeight?: number
+}
+
+/**
+ * Pick the comments that best speak for a cluster: the medoid (the member
+ * nearest the centroid) first, then members ranked by a blend of centrality
+ * and log-scaled likes, skipping near-identical texts. Returns comment indices.
+ */
+export function selectRepresentatives(
+  cluster: Cluster,
+  comments: { text: string; likeCount: number; embedding: number[] }[],
+  options: RepresentativeOptions
+): number[] {
+  const { count = 3, likeWeight = 0.3, duplicateSimilarity } = options
+  const ranked = rankByCentrality(cluster, comments.map(c => c.embedding))
+  if (ranked.length === 0) return []
+
+  // Rescale both signals to 0..1 within the cluster so the blend means the same everywhere
+  const maxSimilarity = ranked[0].similarity
+  const minSimilarity = ranked[ranked.length - 1].similarity
+  const similarityRange = maxSimilarity - minSimilarity || 1
+  const maxLikes = Math.max(...ranked.map(r => Math.log1p(comments[r.commentIndex]?.likeCount ?? 0))) || 1
+
+  const [medoid, ...rest] = ranked
+  const candidates = [
+    medoid.commentIndex,
+    ...rest
+      .map(r => {
+        const centrality = (r.similarity - minSimilarity) / similarityRange
+        const likes = Math.log1p(comments[r.commentIndex]?.likeCount ?? 0) / maxLikes
+        return { commentIndex: r.commentIndex, score: (1 - likeWeight) * centrality + likeWeight * likes }
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(r => r.commentIndex)
+  ]
+
+  const picked: number[] = []
+  const pickedTexts = new Set<string>()
+  for (const idx of candidates) {
+    if (picked.length >= count) break
+    const comment = comments[idx]
+    if (!comment) continue
+
+    const text = cleanText(comment.text)
+    const duplicate = pickedTexts.has(text) ||
+      picked.some(p => cosineSimilarity(comments[p].embedding, comment.embedding) >= duplicateSimilarity)
+    if (duplicate) continue
+
+    picked.push(idx)
+    pickedTexts.add(text)
+  }
+  return picked
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { keywordSearch, moreLikeThis, searchTerms, semanticSearch } from './search'
+import { EmbeddingProvider, localEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding } from './embeddings'
+
+// One axis per topic, so similarities are exact
+const topic = (text: string) =>
+  text.includes('guitar') ? [1, 0, 0] : text.includes('drum') ? [0.6, 0.8, 0] : [0, 0, 1]
+
+const provider: EmbeddingProvider = { ...localEmbeddingProvider, model: 'search-test', embed: async (texts) => texts.map(topic) }
+
+const comment = (id: string, text: string): CommentWithEmbedding => ({
+  id,
+  text,
+  authorName: 'someone',
+  authorProfileImageUrl: '',
+  likeCount: 0,
+  publishedAt: '',
+  replyCount: 0,
+  embedding: topic(text)
+})
+
+const comments = [
+  comment('a', 'Guitar solo, then another guitar solo'),
+  comment('b', 'that drum fill into the solo'),
+  comment('c', 'Solo guitar version please'),
+  comment('d', 'my grandma loved this'),
+]
+
+test('searchTerms lowercases words and keeps quoted phrases together', () => {
+  assert.deepEqual(searchTerms('Guitar  "SOLO version" please'), ['guitar', 'solo version', 'please'])
+  assert.deepEqual(searchTerms('   '), [])
+})
+
+test('keywordSearch needs every term and ranks by occurrences', () => {
+  assert.deepEqual(keywordSearch('guitar solo', comments), [
+    { commentId: 'a', score: 4 },
+    { commentId: 'c', score: 2 },
+  ])
+  assert.deepEqual(keywordSearch('"guitar solo"', comments).map(m => m.commentId), ['a'])
+  assert.deepEqual(keywordSearch('', comments), [])
+})
+
+test('semanticSearch ranks by meaning and drops unrelated comments', async () => {
+  const matches = await semanticSearch('an amazing guitar', comments, { provider })
+
+  assert.deepEqual(matches.map(m => m.commentId), ['a', 'c', 'b'])
+  assert.equal(matches[0].score, 1)
+})
+
+test('moreLikeThis leaves out the comment itself', () => {
+  assert.deepEqual(moreLikeThis(comments[1], comments, provider).map(m => m.commentId), ['a', 'c'])
+})
@@ -0,0 +1,98 @@
+import { EmbeddingProvider, getEmbeddingProvider } from './embeddingProviders'
+import { CommentWithEmbedding, cosineSimilarity, getEmbeddings } from './embeddings'
+
+export type SearchMode = 'keyword' | 'semantic'
+
+export interface SearchMatch {
+  commentId: string
+  // Keyword: occurrences of the terms; semantic: similarity to the query
+  score: number
+}
+
+export interface SimilarComment {
+  comment: CommentWithEmbedding
+  similarity: number
+}
+
+// Most matches a semantic search or "more like this" returns
+const SIMILAR_LIMIT = 50
+
+/**
+ * Lowercase search terms; "quoted phrases" stay together
+ */
+export function searchTerms(query: string): string[] {
+  return [...query.toLowerCase().matchAll(/"([^"]+)"|(\S+)/g)]
+    .map(([, phrase, word]) => (phrase ?? word).trim())
+    .filter(Boolean)
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0
+  for (let at = text.indexOf(term); at !== -1; at = text.indexOf(term, at + term.length)) count++
+  return count
+}
+
+/**
+ * Comments containing every term, most occurrences first. Plain text
+ * matching, so it needs no embeddings and no network.
+ */
+export function keywordSearch(query: string, comments: { id: string; text: string }[]): SearchMatch[] {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return []
+
+  const matches: SearchMatch[] = []
+  for (const comment of comments) {
+    const text = comment.text.toLowerCase()
+    const counts = terms.map(term => countOccurrences(text, term))
+    if (counts.every(n => n > 0)) {
+      matches.push({ commentId: comment.id, score: counts.reduce((sum, n) => sum + n, 0) })
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Comments closest to an embedding, closest first, leaving out any below the threshold
+ */
+export function rankBySimilarity(
+  embedding: number[],
+  comments: CommentWithEmbedding[],
+  options: { threshold: number; limit?: number }
+): SimilarComment[] {
+  const { threshold, limit = SIMILAR_LIMIT } = options
+  return comments
+    .map(comment => ({ comment, similarity: cosineSimilarity(embedding, comment.embedding) }))
+    .filter(r => r.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+}
+
+/**
+ * Comments that mean something like the query. Only the query is embedded
+ * (one request, cached); comments use their stored embeddings.
+ */
+export async function semanticSearch(
+  query: string,
+  comments: CommentWithEmbedding[],
+  options: { provider?: EmbeddingProvider; signal?: AbortSignal } = {}
+): Promise<SearchMatch[]> {
+  const provider = options.provider ?? getEmbeddingProvider()
+  const [embedding] = await getEmbeddings([query], { provider, signal: options.signal })
+  if (!embedding || embedding.length === 0) return []
+
+  return rankBySimilarity(embedding, comments, { threshold: provider.similarity.relevant })
+    .map(r => ({ commentId: r.comment.id, score: r.similarity }))
+}
+
+/**
+ * Comments closest to one of the comments, from stored embeddings alone
+ */
+export function moreLikeThis(
+  comment: CommentWithEmbedding,
+  comments: CommentWithEmbedding[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): SearchMatch[] {
+  return rankBySimilarity(comment.embedding, comments.filter(c => c.id !== comment.id), {
+    threshold: provider.similarity.relevant
+  }).map(r => ({ commentId: r.comment.id, score: r.similarity }))
+}
@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createFileSource, loadUpload, saveUpload } from './sources'
+import { parseCommentsCSV } from './commentFile'
+import { CommentThread } from './youtube'
+
+const csv = [
+  'id,text,parentId',
+  ...Array.from({ length: 250 }, (_, i) => `t${i},top-level ${i},`),
+  'r1,a reply,t0',
+  'r2,a reply to a missing comment,gone'
+].join('\n')
+
+test('a file source threads replies and hands over API-sized pages', async () => {
+  const source = createFileSource({ id: 'upload', name: 'comments.csv', uploadedAt: '2024-01-01T00:00:00Z', comments: parseCommentsCSV(csv) })
+  const pages: CommentThread[][] = []
+  const progress: number[] = []
+
+  const threads = await source.fetchThreads(260, { onPage: (page) => pages.push(page), onProgress: (n) => progress.push(n) })
+
+  // The orphaned reply becomes its own thread
+  assert.equal(threads.length, 251)
+  assert.deepEqual(threads[0].replies.map(r => r.id), ['r1'])
+  assert.equal(threads[0].comment.replyCount, 1)
+  assert.deepEqual(pages.map(p => p.length), [100, 100, 51])
+  assert.deepEqual(progress, [100, 200, 251])
+
+  assert.equal((await source.fetchThreads(5)).length, 5)
+  assert.equal((await source.fetchDetails())?.title, 'comments.csv')
+})
+
+test('a file source stops when aborted', async () => {
+  const source = createFileSource({ id: 'upload', name: 'comments.csv', uploadedAt: '', comments: parseCommentsCSV(csv) })
+  const controller = new AbortController()
+  controller.abort(new Error('cancelled'))
+
+  await assert.rejects(source.fetchThreads(10, { signal: controller.signal }), /cancelled/)
+})
+
+test('uploads are kept for the session even without sessionStorage', () => {
+  const comments = parseCommentsCSV('text\nhello\n')
+  const id = saveUpload('hello.csv', comments)
+
+  assert.deepEqual(loadUpload(id)?.comments, comments)
+  assert.equal(loadUpload('missing'), null)
+})
@@ -0,0 +1,116 @@
+import {
+  Comment,
+  CommentThread,
+  VideoDetails,
+  FetchThreadsOptions,
+  fetchVideoById,
+  fetchCommentThreads,
+  groupThreads,
+  formatCount,
+  formatTimeAgo
+} from './youtube'
+
+/**
+ * Where comments come from. The embedding/clustering/LLM stages only see
+ * what a source returns, so any platform or dataset can be analyzed.
+ */
+export interface CommentSource {
+  kind: 'youtube' | 'file'
+  id: string
+  fetchDetails(signal?: AbortSignal): Promise<VideoDetails | null>
+  fetchThreads(maxResults: number, options?: SourceFetchOptions): Promise<CommentThread[]>
+}
+
+export type SourceFetchOptions = Pick<FetchThreadsOptions, 'signal' | 'onProgress' | 'onPage' | 'onRepliesSkipped'>
+
+export interface UploadedComments {
+  id: string
+  name: string
+  uploadedAt: string
+  comments: Comment[]
+}
+
+const UPLOAD_STORAGE_PREFIX = 'voxtube-upload-'
+
+const FILE_PAGE_SIZE = 100
+
+// Uploads too large for sessionStorage stay available until the tab reloads
+const uploadsInMemory = new Map<string, UploadedComments>()
+
+/**
+ * Comments of a YouTube video, fetched through the Data API
+ */
+export function createYouTubeSource(videoId: string, apiKey: string): CommentSource {
+  return {
+    kind: 'youtube',
+    id: videoId,
+    fetchDetails: (signal) => fetchVideoById(videoId, apiKey, signal),
+    fetchThreads: (maxResults, options) => fetchCommentThreads(videoId, apiKey, maxResults, options)
+  }
+}
+
+/**
+ * Comments imported from a local JSON/CSV file. Works fully offline.
+ */
+export function createFileSource(upload: UploadedComments): CommentSource {
+  const threads = groupThreads(upload.comments)
+
+  return {
+    kind: 'file',
+    id: upload.id,
+    fetchDetails: async () => ({
+      id: upload.id,
+      title: upload.name,
+      channelTitle: 'Uploaded file',
+      thumbnail: '',
+      viewCount: formatCount(String(upload.comments.length), 'comments'),
+      viewCountRaw: 0,
+      commentCount: formatCount(String(upload.comments.length), 'comments'),
+      commentCountRaw: upload.comments.length,
+      publishedAt: upload.uploadedAt,
+      timeAgo: formatTimeAgo(upload.uploadedAt)
+    }),
+    fetchThreads: async (maxResults, options = {}) => {
+      const selected = threads.slice(0, maxResults)
+      // Hand over in API-sized pages so large files stream like a video does
+      for (let i = 0; i < selected.length; i += FILE_PAGE_SIZE) {
+        options.signal?.throwIfAborted()
+        options.onPage?.(selected.slice(i, i + FILE_PAGE_SIZE))
+        options.onProgress?.(Math.min(i + FILE_PAGE_SIZE, selected.length))
+      }
+      return selected
+    }
+  }
+}
+
+/**
+ * Keep an upload for this session and return its id
+ */
+export function saveUpload(name: string, comments: Comment[]): string {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+  const upload: UploadedComments = { id, name, uploadedAt: new Date().toISOString(), comments }
+
+  uploadsInMemory.set(id, upload)
+  try {
+    sessionStorage.setItem(UPLOAD_STORAGE_PREFIX + id, JSON.stringify(upload))
+  } catch {
+    // Quota exceeded - the in-memory copy still works until reload
+  }
+
+  return id
+}
+
+/**
+ * Look up a previously saved upload
+ */
+export function loadUpload(id: string): UploadedComments | null {
+  const inMemory = uploadsInMemory.get(id)
+  if (inMemory) return inMemory
+
+  try {
+    const stored = sessionStorage.getItem(UPLOAD_STORAGE_PREFIX + id)
+    return stored ? (JSON.parse(stored) as UploadedComments) : null
+  } catch {
+    return null
+  }
+}
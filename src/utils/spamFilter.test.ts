@@ -0,0 +1,86 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { countSpamReasons, filterSpam, findRepeatedAuthorComments, textSpamReasons } from './spamFilter'
+import { ANONYMOUS_AUTHOR } from './commentFile'
+import { Comment } from './youtube'
+import { SpamFilterSettings } from '../config/settings'
+
+const rules: SpamFilterSettings = {
+  urls: true,
+  channelPlugs: true,
+  emojiFloods: true,
+  repeatedAuthors: true,
+  maxCommentsPerAuthor: 2,
+  llmClassifier: false
+}
+
+let nextId = 0
+const comment = (text: string, authorName = 'someone', parentId?: string): Comment => ({
+  id: `c${nextId++}`,
+  text,
+  authorName,
+  authorProfileImageUrl: '',
+  likeCount: 0,
+  publishedAt: '',
+  parentId,
+  replyCount: 0
+})
+
+const reasons = (text: string) => textSpamReasons(comment(text), rules)
+
+test('flags links with a scheme, www. or a known domain', () => {
+  for (const text of [
+    'free stuff at https://example.org/win',
+    'go to www.example.net now',
+    'bit.ly/3xyz for the full version',
+    'all my beats on YouTube.com/mybeats'
+  ]) {
+    assert.deepEqual(reasons(text), ['url'], text)
+  }
+})
+
+test('does not take ordinary punctuation for links', () => {
+  for (const text of [
+    'I cried at the end.Me too honestly',
+    'Version 2.0 of this song is better',
+    'Some songs (e.g. this one) never get old',
+    'He said it best...Love this'
+  ]) {
+    assert.deepEqual(reasons(text), [], text)
+  }
+})
+
+test('flags channel plugs but not people talking about a channel', () => {
+  assert.deepEqual(reasons('check out my channel for covers'), ['channelPlug'])
+  assert.deepEqual(reasons('sub 4 sub anyone?'), ['channelPlug'])
+  assert.deepEqual(reasons('this channel always uploads the best live sets'), [])
+})
+
+test('flags comments made only of emoji', () => {
+  assert.deepEqual(reasons('🔥🔥🔥🔥'), ['emojiFlood'])
+  assert.deepEqual(reasons('🔥🔥'), [])
+  assert.deepEqual(reasons('so good 🔥🔥🔥🔥'), [])
+})
+
+test('applies only the rules that are switched on', () => {
+  const off = { ...rules, urls: false, emojiFloods: false }
+  assert.deepEqual(textSpamReasons(comment('www.example.com 🔥🔥🔥'), off), [])
+
+  const { kept, filteredOut } = filterSpam([comment('lovely'), comment('https://spam.example')], rules)
+  assert.deepEqual(kept.map(c => c.text), ['lovely'])
+  assert.deepEqual(countSpamReasons(filteredOut), { url: 1 })
+})
+
+test("drops an author's top-level comments beyond the limit, but not replies or anonymous ones", () => {
+  const comments = [
+    comment('one', 'spammer'),
+    comment('two', 'spammer'),
+    comment('three', 'spammer'),
+    comment('a reply', 'spammer', 'c0'),
+    ...[1, 2, 3].map(n => comment(`imported ${n}`, ANONYMOUS_AUTHOR))
+  ]
+
+  const excess = findRepeatedAuthorComments(comments, rules)
+  assert.deepEqual([...excess], [comments[2].id])
+  assert.equal(findRepeatedAuthorComments(comments, { ...rules, repeatedAuthors: false }).size, 0)
+})
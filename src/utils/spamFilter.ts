@@ -0,0 +1,99 @@
+import { SpamFilterSettings } from '../config/settings'
+import { Comment } from './youtube'
+import { ANONYMOUS_AUTHOR } from './commentFile'
+
+export type SpamReason = 'url' | 'channelPlug' | 'repeatedAuthor' | 'emojiFlood' | 'classifier'
+
+export interface FilteredComment {
+  comment: Comment
+  reasons: SpamReason[]
+}
+
+export const SPAM_REASON_LABELS: Record<SpamReason, string> = {
+  url: 'Links',
+  channelPlug: 'Channel plugs',
+  repeatedAuthor: 'Repeated authors',
+  emojiFlood: 'Emoji floods',
+  classifier: 'Flagged by the model',
+}
+
+const URL_PATTERN = /https?:\/\/|\bwww\.[a-z0-9-]/i
+// Links without a scheme or www. need a known TLD in lowercase, so a missing
+// space after a full stop ("the end.Me too") isn't taken for one
+const BARE_DOMAIN_PATTERN = /\b[A-Za-z0-9-]+\.(com|net|org|io|ly|gg|me|xyz|shop|link|club)\b/
+
+const CHANNEL_PLUG_PATTERN = new RegExp([
+  String.raw`\b(check|checkout|check out|visit|watch|listen to)\s+(out\s+)?my\s+(channel|page|profile|music|cover|songs?|videos?|playlist)`,
+  String.raw`\bsub(scribe)?\s*(to\s+)?(my\s+channel|me)\b`,
+  String.raw`\bsub\s*4\s*sub\b`,
+  String.raw`\b(follow|add)\s+me\s+on\b`,
+  String.raw`\bmy\s+(channel|page)\s+(is|has)\b`,
+  String.raw`\b(whats\s*app|telegram)\b.*\+?\d{6,}`,
+].join('|'), 'i')
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/gu
+// At least this many emoji and nothing else (no letters or digits)
+const EMOJI_FLOOD_MIN = 3
+
+/**
+ * Rules that judge a comment on its own text; run as each page arrives
+ */
+export function textSpamReasons(comment: Comment, rules: SpamFilterSettings): SpamReason[] {
+  const reasons: SpamReason[] = []
+  if (rules.urls && (URL_PATTERN.test(comment.text) || BARE_DOMAIN_PATTERN.test(comment.text))) reasons.push('url')
+  if (rules.channelPlugs && CHANNEL_PLUG_PATTERN.test(comment.text)) reasons.push('channelPlug')
+  if (rules.emojiFloods && !/[\p{L}\p{N}]/u.test(comment.text)) {
+    const emoji = comment.text.match(EMOJI_PATTERN)?.length ?? 0
+    if (emoji >= EMOJI_FLOOD_MIN) reasons.push('emojiFlood')
+  }
+  return reasons
+}
+
+/**
+ * Split comments into those kept and those caught by the text rules
+ */
+export function filterSpam(
+  comments: Comment[],
+  rules: SpamFilterSettings
+): { kept: Comment[]; filteredOut: FilteredComment[] } {
+  const kept: Comment[] = []
+  const filteredOut: FilteredComment[] = []
+  for (const comment of comments) {
+    const reasons = textSpamReasons(comment, rules)
+    if (reasons.length > 0) filteredOut.push({ comment, reasons })
+    else kept.push(comment)
+  }
+  return { kept, filteredOut }
+}
+
+/**
+ * Ids of the top-level comments an author posted beyond the rules' limit; their
+ * first comments stay. Replies don't count (a back-and-forth in one thread is
+ * conversation, not spam), nor do comments without a real author name. Needs
+ * the whole sample, so it runs once every page is in.
+ */
+export function findRepeatedAuthorComments(comments: Comment[], rules: SpamFilterSettings): Set<string> {
+  if (!rules.repeatedAuthors) return new Set()
+
+  const counts = new Map<string, number>()
+  const excess = new Set<string>()
+  for (const comment of comments) {
+    const author = comment.authorName.trim()
+    if (comment.parentId || !author || author === ANONYMOUS_AUTHOR) continue
+    const count = (counts.get(author) || 0) + 1
+    counts.set(author, count)
+    if (count > rules.maxCommentsPerAuthor) excess.add(comment.id)
+  }
+  return excess
+}
+
+/**
+ * Count filtered comments per reason (a comment with two reasons counts for both)
+ */
+export function countSpamReasons(filteredOut: FilteredComment[]): Partial<Record<SpamReason, number>> {
+  const counts: Partial<Record<SpamReason, number>> = {}
+  for (const { reasons } of filteredOut) {
+    for (const reason of reasons) counts[reason] = (counts[reason] || 0) + 1
+  }
+  return counts
+}
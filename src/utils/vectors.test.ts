@@ -0,0 +1,40 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { computeDistanceMatrix, cosineSimilarity, packVectors, unpackVectors } from './vectors'
+
+const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-6, `${actual} vs ${expected}`)
+
+test('cosineSimilarity ignores length and is 0 for mismatched or empty vectors', () => {
+  close(cosineSimilarity([1, 0], [3, 0]), 1)
+  close(cosineSimilarity([1, 0], [0, 2]), 0)
+  close(cosineSimilarity([1, 1], [-1, -1]), -1)
+  assert.equal(cosineSimilarity([1, 0], [1, 0, 0]), 0)
+  assert.equal(cosineSimilarity([], []), 0)
+  assert.equal(cosineSimilarity([0, 0], [1, 0]), 0)
+})
+
+test('computeDistanceMatrix is symmetric 1 - cosine, reporting every row', () => {
+  const embeddings = [[1, 0], [0, 1], [1, 1], [0, 0]]
+  const progress: number[] = []
+
+  const matrix = computeDistanceMatrix(embeddings, (done) => progress.push(done))
+
+  for (let i = 0; i < embeddings.length; i++) {
+    assert.equal(matrix[i][i], 0)
+    for (let j = 0; j < embeddings.length; j++) {
+      assert.equal(matrix[i][j], matrix[j][i])
+      // A zero vector is as far as can be from everything else
+      close(matrix[i][j], i === j ? 0 : i === 3 || j === 3 ? 1 : 1 - cosineSimilarity(embeddings[i], embeddings[j]))
+    }
+  }
+  assert.equal(progress.at(-1), embeddings.length)
+})
+
+test('packVectors and unpackVectors round-trip', () => {
+  const vectors = [[1, 2, 3], [4, 5, 6]]
+  const { data, dim } = packVectors(vectors)
+
+  assert.equal(dim, 3)
+  assert.deepEqual(unpackVectors(data, dim).map(row => Array.from(row)), vectors)
+  assert.deepEqual(unpackVectors(packVectors([]).data, 0), [])
+})
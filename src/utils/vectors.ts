@@ -0,0 +1,85 @@
+/**
+ * Vector math shared by the main thread and the clustering worker.
+ * Kept free of API/SDK imports so the worker bundle stays small.
+ */
+
+// Plain arrays (from the API / cache) and Float32Array rows (in the worker) both work
+export type Vector = ArrayLike<number>
+
+// n×n cosine distances, one Float32Array row per comment over a single shared buffer
+export type DistanceMatrix = Float32Array[]
+
+/**
+ * Compute cosine similarity between two vectors
+ */
+export function cosineSimilarity(a: Vector, b: Vector): number {
+  if (a.length !== b.length || a.length === 0) return 0
+
+  let dotProduct = 0
+  let normA = 0
+  let normB = 0
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB)
+  return denominator === 0 ? 0 : dotProduct / denominator
+}
+
+/**
+ * Compute distance matrix (1 - cosine similarity) for clustering.
+ * Norms are computed once up front; onProgress reports rows done.
+ */
+export function computeDistanceMatrix(
+  embeddings: Vector[],
+  onProgress?: (done: number, total: number) => void
+): DistanceMatrix {
+  const n = embeddings.length
+  const buffer = new Float32Array(n * n)
+  const matrix = Array.from({ length: n }, (_, i) => buffer.subarray(i * n, (i + 1) * n))
+
+  const norms = embeddings.map(e => {
+    let sum = 0
+    for (let d = 0; d < e.length; d++) sum += e[d] * e[d]
+    return Math.sqrt(sum)
+  })
+
+  for (let i = 0; i < n; i++) {
+    const a = embeddings[i]
+    for (let j = i + 1; j < n; j++) {
+      const b = embeddings[j]
+      let distance = 1
+      if (a.length === b.length && norms[i] > 0 && norms[j] > 0) {
+        let dot = 0
+        for (let d = 0; d < a.length; d++) dot += a[d] * b[d]
+        distance = 1 - dot / (norms[i] * norms[j])
+      }
+      matrix[i][j] = distance
+      matrix[j][i] = distance
+    }
+    if (onProgress && (i % 64 === 0 || i === n - 1)) onProgress(i + 1, n)
+  }
+
+  return matrix
+}
+
+/**
+ * Copy vectors into one Float32Array (cheap to transfer to a worker)
+ */
+export function packVectors(vectors: Vector[]): { data: Float32Array; dim: number } {
+  const dim = vectors[0]?.length ?? 0
+  const data = new Float32Array(vectors.length * dim)
+  vectors.forEach((v, i) => data.set(v, i * dim))
+  return { data, dim }
+}
+
+/**
+ * Row views over a packed buffer (no copying)
+ */
+export function unpackVectors(data: Float32Array, dim: number): Float32Array[] {
+  const count = dim > 0 ? data.length / dim : 0
+  return Array.from({ length: count }, (_, i) => data.subarray(i * dim, (i + 1) * dim))
+}
@@ -0,0 +1,24 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { clusterSupport, likeWeight } from './weights'
+
+test('likeWeight starts at 1 and grows with the log of likes', () => {
+  assert.equal(likeWeight(0), 1)
+  assert.equal(likeWeight(-5), 1)
+  assert.ok(likeWeight(10) > likeWeight(1))
+  // A 40K-like comment counts about twelve times as much, not 40,000
+  assert.equal(Math.round(likeWeight(40_000)), 12)
+})
+
+test('clusterSupport counts voices and sums likes per cluster', () => {
+  const comments = [{ likeCount: 5 }, { likeCount: 0 }, { likeCount: 100 }]
+  const clusters = [
+    { id: 2, commentIndices: [0, 1], confidence: 1 },
+    { id: 0, commentIndices: [2], confidence: 1 }
+  ]
+
+  assert.deepEqual(clusterSupport(clusters, comments), [
+    { clusterId: 2, voices: 2, endorsements: 5 },
+    { clusterId: 0, voices: 1, endorsements: 100 }
+  ])
+})
@@ -0,0 +1,30 @@
+import { Cluster } from './clustering'
+
+/**
+ * How much a comment counts when weighting by likes: 1 for an unliked comment,
+ * growing with the log of its likes so a 40K-like comment counts about 12
+ * times, not 40,000 times, as much
+ */
+export function likeWeight(likeCount: number): number {
+  return 1 + Math.log1p(Math.max(0, likeCount))
+}
+
+export interface ClusterSupport {
+  clusterId: number
+  // Comments in the cluster
+  voices: number
+  // Likes those comments received
+  endorsements: number
+}
+
+/**
+ * Voices and endorsements per cluster, for comparing what is said most with
+ * what is upvoted most
+ */
+export function clusterSupport(clusters: Cluster[], comments: { likeCount: number }[]): ClusterSupport[] {
+  return clusters.map(cluster => ({
+    clusterId: cluster.id,
+    voices: cluster.commentIndices.length,
+    endorsements: cluster.commentIndices.reduce((sum, i) => sum + (comments[i]?.likeCount ?? 0), 0)
+  }))
+}
@@ -30,7 +30,7 @@ export interface WordFrequency {
 /**
  * Clean text by removing HTML entities, URLs, and special characters
  */
-function cleanText(text: string): string {
+export function cleanText(text: string): string {
   return text
     // Decode HTML entities
     .replace(/&amp;/g, '&')
@@ -50,8 +50,8 @@ function cleanText(text: string): string {
     .replace(/[\u{1F1E0}-\u{1F1FF}]/gu, '')
     .replace(/[\u{2600}-\u{26FF}]/gu, '')
     .replace(/[\u{2700}-\u{27BF}]/gu, '')
-    // Remove special characters but keep letters and spaces
-    .replace(/[^\w\s'-]/g, ' ')
+    // Remove special characters but keep letters (in any script), digits and spaces
+    .replace(/[^\p{L}\p{M}\p{N}\s'-]/gu, ' ')
     // Normalize whitespace
     .replace(/\s+/g, ' ')
     .trim()
@@ -61,7 +61,7 @@ function cleanText(text: string): string {
 /**
  * Tokenize text into words
  */
-function tokenize(text: string): string[] {
+export function tokenize(text: string): string[] {
   return cleanText(text)
     .split(/\s+/)
     .filter(word => word.length > 2) // Minimum 3 characters
@@ -0,0 +1,83 @@
+import { afterEach, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { fetchCommentThreads } from './youtube'
+
+const realFetch = globalThis.fetch
+afterEach(() => { globalThis.fetch = realFetch })
+
+const snippet = (text: string) => ({
+  textDisplay: text,
+  authorDisplayName: 'someone',
+  likeCount: 0,
+  publishedAt: '2024-01-01T00:00:00Z'
+})
+
+const thread = (id: string, totalReplyCount: number, inlineReplies: number) => ({
+  id,
+  snippet: { totalReplyCount, topLevelComment: { snippet: snippet(id) } },
+  replies: {
+    comments: Array.from({ length: inlineReplies }, (_, i) => ({ id: `${id}.${i}`, snippet: snippet(`${id} reply ${i}`) }))
+  }
+})
+
+const replyPage = (parentId: string, count: number) => ({
+  items: Array.from({ length: count }, (_, i) => ({ id: `${parentId}.${i}`, snippet: snippet(`${parentId} reply ${i}`) }))
+})
+
+// Retry-After in seconds; keep the backoff short
+const rateLimited = () =>
+  new Response(JSON.stringify({ error: { code: 429, message: 'rate limited' } }), {
+    status: 429,
+    headers: { 'Retry-After': '0.001' }
+  })
+
+/**
+ * Stand-in for the Data API: one page of threads, and replies per parent id
+ */
+function mockApi(threads: object[], replies: (parentId: string) => Response) {
+  const requests: string[] = []
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = new URL(String(input))
+    requests.push(url.pathname.endsWith('/comments') ? `comments:${url.searchParams.get('parentId')}` : 'threads')
+    if (url.pathname.endsWith('/commentThreads')) return new Response(JSON.stringify({ items: threads }))
+    return replies(url.searchParams.get('parentId')!)
+  }) as typeof fetch
+  return requests
+}
+
+test('only fetches replies for threads with more than were inlined', async () => {
+  const requests = mockApi(
+    [thread('a', 2, 2), thread('b', 0, 0), thread('c', 5, 2)],
+    (parentId) => new Response(JSON.stringify(replyPage(parentId, 5)))
+  )
+
+  const threads = await fetchCommentThreads('video', 'key', 3)
+
+  assert.deepEqual(requests, ['threads', 'comments:c'])
+  assert.deepEqual(threads.map(t => t.replies.length), [2, 0, 5])
+})
+
+test('retries rate-limited reply requests', async () => {
+  let attempts = 0
+  const requests = mockApi([thread('a', 4, 1)], (parentId) => {
+    attempts++
+    return attempts < 3 ? rateLimited() : new Response(JSON.stringify(replyPage(parentId, 4)))
+  })
+  const skipped: number[] = []
+
+  const threads = await fetchCommentThreads('video', 'key', 1, { onRepliesSkipped: (n) => skipped.push(n) })
+
+  assert.equal(requests.length, 4)
+  assert.equal(threads[0].replies.length, 4)
+  assert.deepEqual(skipped, [])
+})
+
+test('counts replies it still could not fetch and keeps the inlined ones', async () => {
+  mockApi([thread('a', 6, 2), thread('b', 3, 1)], () => rateLimited())
+  const skipped: number[] = []
+
+  const threads = await fetchCommentThreads('video', 'key', 2, { onRepliesSkipped: (n) => skipped.push(n) })
+
+  assert.deepEqual(threads.map(t => t.replies.length), [2, 1])
+  assert.deepEqual(skipped, [4 + 2])
+})
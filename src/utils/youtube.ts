@@ -1,3 +1,5 @@
+import { API_PROXY_URL } from './proxy'
+
 export interface VideoDetails {
   id: string
   title: string
@@ -14,7 +16,7 @@ export interface VideoDetails {
 /**
  * Format count to human readable format
  */
-function formatCount(count: string, label: string): string {
+export function formatCount(count: string, label: string): string {
   const num = parseInt(count, 10)
   if (isNaN(num)) return `0 ${label}`
   
@@ -33,7 +35,7 @@ function formatCount(count: string, label: string): string {
 /**
  * Format date to relative time (e.g., "2 years ago")
  */
-function formatTimeAgo(dateString: string): string {
+export function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString)
   const now = new Date()
   const diffMs = now.getTime() - date.getTime()
@@ -63,6 +65,29 @@ function formatTimeAgo(dateString: string): string {
   return 'Just now'
 }
 
+/**
+ * Build a Data API request URL. Through the proxy (which adds the key
+ * server-side) when one is configured, otherwise straight to YouTube.
+ */
+function youtubeUrl(
+  proxyPath: string,
+  apiPath: string,
+  params: Record<string, string | number>,
+  apiKey: string
+): string {
+  const query = new URLSearchParams()
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== '') query.set(name, String(value))
+  }
+
+  if (API_PROXY_URL) {
+    return `${API_PROXY_URL}${proxyPath}?${query}`
+  }
+
+  query.set('key', apiKey)
+  return `https://www.googleapis.com/youtube/v3/${apiPath}?${query}`
+}
+
 /**
  * Search YouTube for videos and return top results with full details
  */
@@ -71,7 +96,7 @@ export async function searchVideos(query: string, apiKey: string, maxResults: nu
 
   // Search for more videos than needed to account for filtering
   const searchCount = maxResults * 3
-  const searchUrl = `https://www.googleapis.com/youtube/v3/search?part=snippet&type=video&maxResults=${searchCount}&q=${encodeURIComponent(query)}&key=${apiKey}`
+  const searchUrl = youtubeUrl('/api/search', 'search', { part: 'snippet', type: 'video', maxResults: searchCount, q: query }, apiKey)
 
   try {
     const searchResponse = await fetch(searchUrl)
@@ -85,7 +110,7 @@ export async function searchVideos(query: string, apiKey: string, maxResults: nu
     const videoIds = searchData.items.map((item: { id: { videoId: string } }) => item.id.videoId).join(',')
 
     // Fetch full details (including statistics) for these videos
-    const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics&id=${videoIds}&key=${apiKey}`
+    const detailsUrl = youtubeUrl(`/api/video/${encodeURIComponent(videoIds)}`, 'videos', { part: 'snippet,statistics', id: videoIds }, apiKey)
     const detailsResponse = await fetch(detailsUrl)
     const detailsData = await detailsResponse.json()
 
@@ -139,11 +164,11 @@ export async function searchVideos(query: string, apiKey: string, maxResults: nu
 /**
  * Fetch video details by ID
  */
-export async function fetchVideoById(videoId: string, apiKey: string): Promise<VideoDetails | null> {
-  const url = `https://www.googleapis.com/youtube/v3/videos?part=snippet,statistics&id=${videoId}&key=${apiKey}`
+export async function fetchVideoById(videoId: string, apiKey: string, signal?: AbortSignal): Promise<VideoDetails | null> {
+  const url = youtubeUrl(`/api/video/${videoId}`, 'videos', { part: 'snippet,statistics', id: videoId }, apiKey)
 
   try {
-    const response = await fetch(url)
+    const response = await fetch(url, { signal })
     const data = await response.json()
 
     if (!data.items || data.items.length === 0) {
@@ -164,6 +189,7 @@ export async function fetchVideoById(videoId: string, apiKey: string): Promise<V
       timeAgo: formatTimeAgo(item.snippet.publishedAt)
     }
   } catch (error) {
+    signal?.throwIfAborted()
     console.error('Failed to fetch video:', error)
     return null
   }
@@ -175,7 +201,57 @@ export interface Comment {
   authorName: string
   authorProfileImageUrl: string
   likeCount: number
+  // ISO date; empty for imported comments without a valid one
+  publishedAt: string
+  parentId?: string
+  replyCount: number
+}
+
+export interface CommentThread {
+  comment: Comment
+  replies: Comment[]
+}
+
+export interface FetchThreadsOptions {
+  includeReplies?: boolean
+  maxRepliesPerThread?: number
+  signal?: AbortSignal
+  onProgress?: (fetchedThreads: number) => void
+  // Each page of threads as soon as it has been fetched
+  onPage?: (threads: CommentThread[]) => void
+  // Replies left out because the API (or the proxy's rate limit) kept refusing them
+  onRepliesSkipped?: (count: number) => void
+}
+
+// Threads whose replies are fetched at once
+const REPLY_CONCURRENCY = 4
+// Attempts after a rate-limited or failed request, waiting longer each time
+const MAX_RETRIES = 3
+const RETRY_BASE_MS = 1000
+
+interface CommentSnippet {
+  textDisplay: string
+  authorDisplayName: string
+  authorProfileImageUrl?: string
+  likeCount?: number
   publishedAt: string
+  parentId?: string
+}
+
+/**
+ * Map a YouTube comment snippet to our Comment model
+ */
+function toComment(id: string, snippet: CommentSnippet, replyCount: number = 0): Comment {
+  return {
+    id,
+    text: snippet.textDisplay,
+    authorName: snippet.authorDisplayName,
+    authorProfileImageUrl: snippet.authorProfileImageUrl || '',
+    likeCount: snippet.likeCount || 0,
+    publishedAt: snippet.publishedAt,
+    parentId: snippet.parentId,
+    replyCount
+  }
 }
 
 /**
@@ -183,7 +259,7 @@ export interface Comment {
  */
 export async function areCommentsAccessible(videoId: string, apiKey: string): Promise<boolean> {
   try {
-    const url = `https://www.googleapis.com/youtube/v3/commentThreads?part=id&videoId=${videoId}&maxResults=1&key=${apiKey}`
+    const url = youtubeUrl(`/api/comments/${videoId}`, 'commentThreads', { part: 'id', videoId, maxResults: 1 }, apiKey)
     const response = await fetch(url)
     const data = await response.json()
     
@@ -199,26 +275,146 @@ export async function areCommentsAccessible(videoId: string, apiKey: string): Pr
 }
 
 /**
- * Fetch top comments for a video (ordered by relevance)
+ * Wait before a retry (rejects with the signal's reason if aborted meanwhile)
  */
-export async function fetchComments(videoId: string, apiKey: string, maxResults: number = 100): Promise<Comment[]> {
-  const comments: Comment[] = []
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(signal.reason)
+    }, { once: true })
+  })
+}
+
+/**
+ * GET an API page, retrying rate limits (429) and server errors with
+ * backoff, honouring Retry-After. The last error response is returned as is.
+ */
+async function fetchWithRetry(url: string, signal?: AbortSignal) {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, { signal })
+    const data = await response.json()
+    const status = data.error?.code ?? response.status
+    const retryable = status === 429 || status >= 500
+    if (!data.error || !retryable || attempt >= MAX_RETRIES) return data
+
+    const retryAfter = Number(response.headers.get('Retry-After'))
+    await wait(retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_MS * 2 ** attempt, signal)
+  }
+}
+
+/**
+ * Run `fn` over items, at most `limit` at a time, keeping the input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Order replies so a conversation reads in the order it happened
+ */
+function sortOldestFirst(replies: Comment[]): Comment[] {
+  return [...replies].sort((a, b) => new Date(a.publishedAt).getTime() - new Date(b.publishedAt).getTime())
+}
+
+/**
+ * Fetch all replies to a top-level comment via comments.list (paginated).
+ * `failed` is set when the API gave up before all of them came in.
+ */
+async function fetchReplies(
+  parentId: string,
+  apiKey: string,
+  maxResults: number,
+  signal?: AbortSignal
+): Promise<{ replies: Comment[]; failed: boolean }> {
+  const replies: Comment[] = []
+  let pageToken = ''
+  let failed = false
+
+  try {
+    while (replies.length < maxResults) {
+      const url = youtubeUrl(`/api/replies/${parentId}`, 'comments', {
+        part: 'snippet',
+        parentId,
+        maxResults: 100,
+        textFormat: 'plainText',
+        pageToken
+      }, apiKey)
+
+      const data = await fetchWithRetry(url, signal)
+
+      if (data.error) {
+        console.error('YouTube API error:', data.error)
+        failed = true
+        break
+      }
+
+      if (!data.items || data.items.length === 0) {
+        break
+      }
+
+      for (const item of data.items) {
+        replies.push(toComment(item.id, { ...item.snippet, parentId }))
+      }
+
+      if (!data.nextPageToken) {
+        break
+      }
+
+      pageToken = data.nextPageToken
+    }
+  } catch (error) {
+    signal?.throwIfAborted()
+    console.error('Failed to fetch replies:', error)
+    failed = true
+  }
+
+  return { replies: sortOldestFirst(replies.slice(0, maxResults)), failed }
+}
+
+/**
+ * Fetch top comment threads for a video (ordered by relevance), including replies.
+ * Uses the replies embedded in commentThreads and falls back to comments.list,
+ * a few threads at a time, only when a thread has more replies than YouTube
+ * returns inline. Replies that still can't be fetched are counted, not hidden.
+ */
+export async function fetchCommentThreads(
+  videoId: string,
+  apiKey: string,
+  maxResults: number = 100,
+  options: FetchThreadsOptions = {}
+): Promise<CommentThread[]> {
+  const { includeReplies = true, maxRepliesPerThread = 20, signal, onProgress, onPage, onRepliesSkipped } = options
+  const threads: CommentThread[] = []
   let pageToken = ''
   const perPage = Math.min(maxResults, 100) // API max is 100 per request
+  const part = includeReplies ? 'snippet,replies' : 'snippet'
 
   try {
-    while (comments.length < maxResults) {
-      const remaining = maxResults - comments.length
+    while (threads.length < maxResults) {
+      const remaining = maxResults - threads.length
       const fetchCount = Math.min(remaining, perPage)
       
-      let url = `https://www.googleapis.com/youtube/v3/commentThreads?part=snippet&videoId=${videoId}&maxResults=${fetchCount}&order=relevance&textFormat=plainText&key=${apiKey}`
-      
-      if (pageToken) {
-        url += `&pageToken=${pageToken}`
-      }
+      const url = youtubeUrl(`/api/comments/${videoId}`, 'commentThreads', {
+        part,
+        videoId,
+        maxResults: fetchCount,
+        order: 'relevance',
+        textFormat: 'plainText',
+        pageToken
+      }, apiKey)
 
-      const response = await fetch(url)
-      const data = await response.json()
+      const data = await fetchWithRetry(url, signal)
 
       if (data.error) {
         console.error('YouTube API error:', data.error)
@@ -229,28 +425,85 @@ export async function fetchComments(videoId: string, apiKey: string, maxResults:
         break
       }
 
+      const page: CommentThread[] = []
+      const incomplete: { thread: CommentThread; expected: number }[] = []
       for (const item of data.items) {
-        const snippet = item.snippet.topLevelComment.snippet
-        comments.push({
-          id: item.id,
-          text: snippet.textDisplay,
-          authorName: snippet.authorDisplayName,
-          authorProfileImageUrl: snippet.authorProfileImageUrl || '',
-          likeCount: snippet.likeCount || 0,
-          publishedAt: snippet.publishedAt
-        })
+        const replyCount: number = item.snippet.totalReplyCount || 0
+        const comment = toComment(item.id, item.snippet.topLevelComment.snippet, replyCount)
+        const inline: { id: string; snippet: CommentSnippet }[] = includeReplies ? item.replies?.comments || [] : []
+        const thread = {
+          comment,
+          replies: sortOldestFirst(
+            inline.slice(0, maxRepliesPerThread).map(r => toComment(r.id, { ...r.snippet, parentId: item.id }))
+          )
+        }
+        const expected = Math.min(replyCount, maxRepliesPerThread)
+        if (includeReplies && inline.length < expected) incomplete.push({ thread, expected })
+        page.push(thread)
       }
 
-      if (!data.nextPageToken || comments.length >= maxResults) {
+      const skipped = await mapWithConcurrency(incomplete, REPLY_CONCURRENCY, async ({ thread, expected }) => {
+        const { replies, failed } = await fetchReplies(thread.comment.id, apiKey, maxRepliesPerThread, signal)
+        // On failure keep whichever set is larger: the inline replies or what came in
+        if (replies.length >= thread.replies.length) thread.replies = replies
+        return failed ? Math.max(0, expected - thread.replies.length) : 0
+      })
+      const skippedCount = skipped.reduce((sum, n) => sum + n, 0)
+      if (skippedCount > 0) onRepliesSkipped?.(skippedCount)
+
+      const pageStart = threads.length
+      threads.push(...page)
+      onPage?.(threads.slice(pageStart, maxResults))
+      onProgress?.(threads.length)
+
+      if (!data.nextPageToken || threads.length >= maxResults) {
         break
       }
       
       pageToken = data.nextPageToken
     }
 
-    return comments.slice(0, maxResults)
+    return threads.slice(0, maxResults)
   } catch (error) {
+    signal?.throwIfAborted()
     console.error('Failed to fetch comments:', error)
-    return comments
+    return threads
   }
 }
+
+/**
+ * Flatten threads into a single list: each top-level comment followed by its replies
+ */
+export function flattenThreads(threads: CommentThread[]): Comment[] {
+  return threads.flatMap(t => [t.comment, ...t.replies])
+}
+
+/**
+ * Rebuild threads from a flat list (the inverse of flattenThreads).
+ * Replies whose parent isn't in the list become their own thread.
+ */
+export function groupThreads(comments: Comment[]): CommentThread[] {
+  const ids = new Set(comments.map(c => c.id))
+  const repliesByParent = new Map<string, Comment[]>()
+  for (const c of comments) {
+    if (c.parentId && ids.has(c.parentId)) {
+      if (!repliesByParent.has(c.parentId)) repliesByParent.set(c.parentId, [])
+      repliesByParent.get(c.parentId)!.push(c)
+    }
+  }
+
+  return comments
+    .filter(c => !c.parentId || !ids.has(c.parentId))
+    .map(c => {
+      const replies = sortOldestFirst(repliesByParent.get(c.id) || [])
+      return { comment: { ...c, replyCount: Math.max(c.replyCount, replies.length) }, replies }
+    })
+}
+
+/**
+ * Fetch top comments for a video (ordered by relevance), without replies
+ */
+export async function fetchComments(videoId: string, apiKey: string, maxResults: number = 100): Promise<Comment[]> {
+  const threads = await fetchCommentThreads(videoId, apiKey, maxResults, { includeReplies: false })
+  return threads.map(t => t.comment)
+}
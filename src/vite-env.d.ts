@@ -3,6 +3,10 @@
 interface ImportMetaEnv {
   readonly VITE_YOUTUBE_API_KEY: string
   readonly VITE_OPENAI_API_KEY: string
+  readonly VITE_API_PROXY_URL?: string
+  readonly VITE_LLM_BACKEND?: string
+  readonly VITE_LLM_BASE_URL?: string
+  readonly VITE_LLM_MODEL?: string
 }
 
 interface ImportMeta {